@@ -1,97 +1,128 @@
 import Redis from "ioredis";
-
-// Static, fixed information regarding a given channel session.
-export type ChannelHeader = {
-  // Channel ID.
-  id: string;
-  // Chain where redemptions should occur.
-  chainId: string;
-  // The subscriber, sender of funds.
-  sender: string;
-  // The provider, receiver of funds.
-  receiver: string;
-  // The asset being delivered.
-  asset: string;
-};
-
-// The last available state of a given channel session.
-export type ChannelState = {
-  // Timestamp of last update (in seconds).
-  timestamp: number;
-  // The number of updates that have happened so far for this channel.
-  iteration: number;
-  // The amount of tokens pledged in latest update.
-  amount: string;
-  // The latest signed expiry time (in seconds).
-  expiry: number;
-  // The latest signature.
-  signature: string;
-};
-
-// TODO: Should we record previous states for any reason?
-// The stored object, containing both the static header and the active state.
-export type Channel = ChannelHeader & {
-  state: ChannelState;
-};
-
-// List of channel IDs. Used in retrieving open and closed channels.
-export type ChannelList = Array<string>;
+import { ConflictError, NotFoundError } from "./errors.ts";
+import {
+  Channel,
+  ChannelFilter,
+  ChannelList,
+  ChannelState,
+  ChannelStore,
+  ClaimRecord,
+  HistoryRetention,
+  InsertChannelParams,
+  Reservation,
+  UpdateChannelParams,
+  Usage,
+} from "./ChannelStore.ts";
+import { log } from "./logging.ts";
 
 // Params for constructing the cache.
 export type CacheParams = {
-  receiver: string;
   host: string;
   port: number;
-  mock: boolean;
+  retention?: HistoryRetention;
 };
 
 /**
  * Redis Store Details:
  * Channels:
- *   key: $id | value: JSON.stringify(Channel);
- *
+ *   key: channel:$id | value: JSON.stringify(Channel);
  *
  * Channel Status:
- *   key: $id | value: JSON.stringify(ChannelStatus);
+ *   key: open | value: set of open channel IDs;
+ *   key: closed | value: set of closed channel IDs;
+ *   key: unverified | value: set of migrated channel IDs not yet known to be open or closed;
+ *
+ * Secondary Indexes:
+ *   key: index:chain:$chainId | value: set of channel IDs;
+ *   key: index:asset:$asset | value: set of channel IDs;
+ *   key: index:sender:$sender | value: set of channel IDs;
+ *   key: index:updated | value: sorted set of channel IDs, scored by last update timestamp;
+ *
+ * Channel History:
+ *   key: history:$id | value: list of JSON.stringify(ChannelState), oldest first;
+ *
+ * Claims:
+ *   key: claims | value: hash of $id => JSON.stringify(ClaimRecord);
+ *
+ * Usage:
+ *   key: usage:$id | value: hash of requests, bytes and seconds totals;
+ *
+ * Reservations:
+ *   key: reservation:$id | value: JSON.stringify(Reservation), expiring with the reservation;
+ *
+ * All writes touching more than one key go through Lua scripts, so they are applied atomically.
+ * Addresses are lowercased in index keys.
  */
-export class ChannelCache {
+export class ChannelCache implements ChannelStore {
+  // Version of the storage layout, bumped whenever a migration is needed.
+  private static readonly VERSION = "2";
+
   private readonly prefix = "channels";
   private readonly data!: Redis;
-  private readonly receiver: string;
-
-  constructor({ host, port, mock, receiver }: CacheParams) {
-    this.receiver = receiver;
-    if (mock) {
-      const IoRedisMock = require("ioredis-mock");
-      this.data = new IoRedisMock();
-    } else {
-      this.data = new Redis({
-        host,
-        port,
-        connectTimeout: 17000,
-        maxRetriesPerRequest: 4,
-        retryStrategy: (times) => Math.min(times * 30, 1000),
-      });
+  private readonly retention: HistoryRetention;
+
+  constructor({ host, port, retention }: CacheParams) {
+    this.retention = retention ?? {};
+    this.data = new Redis({
+      host,
+      port,
+      connectTimeout: 17000,
+      maxRetriesPerRequest: 4,
+      retryStrategy: (times) => Math.min(times * 30, 1000),
+    });
+  }
+
+  public async init(): Promise<void> {
+    const migrated = await this.migrate();
+    if (migrated > 0) {
+      log().info({ migrated }, "Migrated channels to current storage layout.");
     }
   }
 
+  public async close(): Promise<void> {
+    await this.data.quit();
+  }
+
   /**
    * Retrieve channel data for a given channel ID.
    * @param id - The ID of the channel we are retrieving.
    * @returns Channel data if exists, undefined otherwise.
    */
   public async getChannel(id: string): Promise<Channel | undefined> {
-    const res = await this.data.hget(`${this.prefix}:channel`, id);
+    const res = await this.data.get(this.channelKey(id));
     return res ? (JSON.parse(res) as Channel) : undefined;
   }
 
+  /**
+   * Retrieve every accepted state for a given channel, subject to the retention policy.
+   * @param id - The ID of the channel we are retrieving history for.
+   * @returns List of states, oldest first. Empty if the channel does not exist.
+   */
+  public async getChannelHistory(id: string): Promise<ChannelState[]> {
+    const res = await this.data.lrange(this.historyKey(id), 0, -1);
+    return res.map((entry) => JSON.parse(entry) as ChannelState);
+  }
+
+  /**
+   * Retrieve the state of a given channel at a specific iteration.
+   * @param id - The ID of the channel.
+   * @param iteration - The iteration of the state we are retrieving.
+   * @returns The state if it exists and has been retained, undefined otherwise.
+   */
+  public async getChannelStateAt(
+    id: string,
+    iteration: number
+  ): Promise<ChannelState | undefined> {
+    const history = await this.getChannelHistory(id);
+    return history.find((state) => state.iteration === iteration);
+  }
+
   /**
    * Retrieve all open channels.
    * @returns List of all currently open channels.
    */
   public async getOpenChannels(): Promise<ChannelList> {
-    const res = await this.data.hget(`${this.prefix}:list`, "open");
-    return res ? (JSON.parse(res) as ChannelList) : [];
+    return await this.data.smembers(`${this.prefix}:open`);
   }
 
   /**
@@ -99,28 +130,207 @@ export class ChannelCache {
    * @returns List of all currently closed channels.
    */
   public async getClosedChannels(): Promise<ChannelList> {
-    const res = await this.data.hget(`${this.prefix}:list`, "closed");
-    return res ? (JSON.parse(res) as ChannelList) : [];
+    return await this.data.smembers(`${this.prefix}:closed`);
+  }
+
+  /**
+   * Retrieve channels migrated from the legacy layout that aren't yet known to be open or
+   * closed.
+   * @returns List of unverified channels.
+   */
+  public async getUnverifiedChannels(): Promise<ChannelList> {
+    return await this.data.smembers(`${this.prefix}:unverified`);
+  }
+
+  /**
+   * Move an unverified channel into the open or closed set.
+   * @param id - The ID of the unverified channel.
+   * @param status - Whether the channel is still open or was already closed.
+   * @returns true if the channel was unverified.
+   */
+  public async resolveUnverifiedChannel(
+    id: string,
+    status: "open" | "closed"
+  ): Promise<boolean> {
+    return (
+      (await this.data.smove(
+        `${this.prefix}:unverified`,
+        `${this.prefix}:${status}`,
+        id
+      )) === 1
+    );
+  }
+
+  /**
+   * Look up channels matching all of the given filters using the secondary indexes.
+   * @param filter - Status, chain, asset and/or sender to match.
+   * @returns List of matching channel IDs.
+   */
+  public async findChannels(filter: ChannelFilter): Promise<ChannelList> {
+    const keys: string[] = [];
+    if (filter.status) {
+      keys.push(`${this.prefix}:${filter.status}`);
+    }
+    if (filter.chainId) {
+      keys.push(this.indexKey("chain", filter.chainId));
+    }
+    if (filter.asset) {
+      keys.push(this.indexKey("asset", filter.asset));
+    }
+    if (filter.sender) {
+      keys.push(this.indexKey("sender", filter.sender));
+    }
+    if (keys.length === 0) {
+      return await this.data.sunion(
+        `${this.prefix}:open`,
+        `${this.prefix}:closed`,
+        `${this.prefix}:unverified`
+      );
+    }
+    return await this.data.sinter(...keys);
+  }
+
+  /**
+   * Retrieve channels last updated within a given time window.
+   * @param from - Start of the window (in seconds, inclusive).
+   * @param to - End of the window (in seconds, inclusive).
+   * @returns List of channel IDs, least recently updated first.
+   */
+  public async getChannelsUpdatedBetween(
+    from: number,
+    to: number
+  ): Promise<ChannelList> {
+    return await this.data.zrangebyscore(
+      `${this.prefix}:index:updated`,
+      from,
+      to
+    );
   }
 
   /**
    * Close channel(s) with given IDs.
    * @param ids - The IDs of the channels we are closing.
-   * @returns true if channel was closed, false if doesn't exist.
+   * @returns true if all channels were closed, false if any were not open.
    */
   public async closeChannels(ids: string[]): Promise<boolean> {
-    // Remove target ID from open channel list and commit.
-    let res = await this.updateChannelList("open", ids, true);
-    if (!res) {
-      return false;
+    if (ids.length === 0) {
+      return true;
     }
+    // Move every ID from the open set into the closed set in one go.
+    const closed = (await this.data.eval(
+      `
+      local closed = 0
+      for _, id in ipairs(ARGV) do
+        closed = closed + redis.call("SMOVE", KEYS[1], KEYS[2], id)
+      end
+      return closed
+      `,
+      2,
+      `${this.prefix}:open`,
+      `${this.prefix}:closed`,
+      ...ids
+    )) as number;
+    return closed === ids.length;
+  }
 
-    // Add this ID into the closed channels list and commit.
-    res = await this.updateChannelList("closed", ids, false);
-    if (!res) {
-      return false;
-    }
-    return true;
+  /**
+   * Record why a channel was claimed.
+   * @param record - The claim record to store. Replaces any previous record for the channel.
+   */
+  public async recordClaim(record: ClaimRecord): Promise<void> {
+    await this.data.hset(
+      `${this.prefix}:claims`,
+      record.id,
+      JSON.stringify(record)
+    );
+  }
+
+  /**
+   * Retrieve the claim record for a given channel ID.
+   * @param id - The ID of the claimed channel.
+   * @returns Claim record if exists, undefined otherwise.
+   */
+  public async getClaimRecord(id: string): Promise<ClaimRecord | undefined> {
+    const res = await this.data.hget(`${this.prefix}:claims`, id);
+    return res ? (JSON.parse(res) as ClaimRecord) : undefined;
+  }
+
+  /**
+   * Add to the usage recorded against a channel.
+   * @param id - The ID of the channel.
+   * @param usage - The usage to add.
+   * @returns Total usage recorded against the channel, including the addition.
+   */
+  public async recordUsage(id: string, usage: Usage): Promise<Usage> {
+    const key = `${this.prefix}:usage:${id}`;
+    const res = await this.data
+      .multi()
+      .hincrby(key, "requests", usage.requests)
+      .hincrby(key, "bytes", usage.bytes)
+      .hincrbyfloat(key, "seconds", usage.seconds)
+      .exec();
+    const [requests, bytes, seconds] = res.map(([error, value]) => {
+      if (error) {
+        throw error;
+      }
+      return Number(value);
+    });
+    return { requests, bytes, seconds };
+  }
+
+  /**
+   * Retrieve the total usage recorded against a channel.
+   * @param id - The ID of the channel.
+   * @returns Total usage, all zero if none was recorded.
+   */
+  public async getUsage(id: string): Promise<Usage> {
+    const res = await this.data.hgetall(`${this.prefix}:usage:${id}`);
+    return {
+      requests: Number(res.requests ?? 0),
+      bytes: Number(res.bytes ?? 0),
+      seconds: Number(res.seconds ?? 0),
+    };
+  }
+
+  /**
+   * Reserve a channel ID for a subscriber. The key expires along with the reservation.
+   * @param reservation - The reservation to store. Replaces any previous one for the ID.
+   */
+  public async reserveId(reservation: Reservation): Promise<void> {
+    const ttl = reservation.expiresAt - Math.floor(new Date().getTime() / 1000);
+    await this.data.set(
+      `${this.prefix}:reservation:${reservation.id}`,
+      JSON.stringify(reservation),
+      "EX",
+      Math.max(ttl, 1)
+    );
+  }
+
+  /**
+   * Retrieve the reservation for a given channel ID.
+   * @param id - The reserved channel ID.
+   * @returns The reservation if exists, undefined otherwise.
+   */
+  public async getReservation(id: string): Promise<Reservation | undefined> {
+    const res = await this.data.get(`${this.prefix}:reservation:${id}`);
+    return res ? (JSON.parse(res) as Reservation) : undefined;
+  }
+
+  /**
+   * Release the reservation for a given channel ID.
+   * @param id - The reserved channel ID.
+   * @returns true if there was a reservation to release.
+   */
+  public async releaseReservation(id: string): Promise<boolean> {
+    return (await this.data.del(`${this.prefix}:reservation:${id}`)) > 0;
+  }
+
+  /**
+   * Redis expires reservations on its own, so there is nothing to purge.
+   * @returns 0.
+   */
+  public async purgeReservations(before: number): Promise<number> {
+    return 0;
   }
 
   /**
@@ -129,66 +339,83 @@ export class ChannelCache {
    * @param data.id - The ID of channel.
    * @param data.chainId - The ID of the chain where redemptions will take place.
    * @param data.sender - The subscriber address.
+   * @param data.receiver - The provider address.
    * @param data.asset - The token asset being transferred.
+   * @param data.scheme - How the sender signs states for this channel.
    * @param data.amount - The latest amount of tokens being secured in the channel.
    * @param data.expiry - The on-chain expiry of the channel (can be updated).
    * @param data.signature - The sender's signature on digest (id, provider, asset, amount, expiry).
+   * @param data.receipt - The provider's receipt for the initial state.
    *
-   * @returns 0 if updated, 1 if created.
+   * @returns 1 if created.
    */
   public async insertChannel({
     id,
     chainId,
     sender,
+    receiver,
     asset,
+    scheme,
     amount,
     expiry,
     signature,
-  }: {
-    id: string;
-    chainId: string;
-    sender: string;
-    asset: string;
-    amount: string;
-    expiry: number;
-    signature: string;
-  }): Promise<number> {
-    let channel: Channel;
-    // If channel entry exists, throw an error. Otherwise, we'll create a new entry.
-    channel = await this.getChannel(id);
-    if (channel) {
-      throw new Error(`Channel with given ID (${id}) already exists.`);
-    }
-
+    receipt,
+  }: InsertChannelParams): Promise<number> {
     const timestamp = Math.floor(new Date().getTime() / 1000);
     // Create a new channel.
-    channel = {
+    const channel: Channel = {
       id,
       chainId,
       sender,
-      receiver: this.receiver,
+      receiver,
       asset,
+      scheme,
       state: {
         timestamp,
         iteration: 1,
         amount,
         expiry,
         signature,
+        receipt,
       },
     };
 
-    // Record the channel entry.
-    const res = await this.data.hset(
-      `${this.prefix}:channel`,
+    // Record the channel entry, mark it open, index it and start its history. Fails if the
+    // channel entry already exists.
+    const res = (await this.data.eval(
+      `
+      if redis.call("EXISTS", KEYS[1]) == 1 then
+        return 0
+      end
+      redis.call("SET", KEYS[1], ARGV[2])
+      redis.call("SADD", KEYS[2], ARGV[1])
+      redis.call("SADD", KEYS[3], ARGV[1])
+      redis.call("SADD", KEYS[4], ARGV[1])
+      redis.call("SADD", KEYS[5], ARGV[1])
+      redis.call("ZADD", KEYS[6], ARGV[4], ARGV[1])
+      redis.call("RPUSH", KEYS[7], ARGV[3])
+      return 1
+      `,
+      7,
+      this.channelKey(id),
+      `${this.prefix}:open`,
+      this.indexKey("chain", chainId),
+      this.indexKey("asset", asset),
+      this.indexKey("sender", sender),
+      `${this.prefix}:index:updated`,
+      this.historyKey(id),
       id,
-      JSON.stringify(channel)
-    );
-    // Update open channels list.
-    const updateRes = await this.updateChannelList("open", [id], false);
-
-    // TODO: Check responses?
-
-    return Number(res >= 1);
+      JSON.stringify(channel),
+      JSON.stringify(channel.state),
+      timestamp
+    )) as number;
+    if (res === 0) {
+      throw new ConflictError(
+        `Channel with given ID (${id}) already exists.`,
+        "CHANNEL_EXISTS"
+      );
+    }
+    return res;
   }
 
   /**
@@ -198,29 +425,35 @@ export class ChannelCache {
    * @param data.amount - The latest amount of tokens being secured in the channel.
    * @param data.expiry - The on-chain expiry of the channel (can be updated).
    * @param data.signature - The sender's signature on digest (id, provider, asset, amount, expiry).
+   * @param data.iteration - The iteration the new state is expected to get.
+   * @param data.receipt - The provider's receipt for the new state.
    *
-   * @returns 0 if updated, 1 if created.
+   * @returns 1 if updated.
    */
   public async updateChannel({
     id,
     amount,
     expiry,
     signature,
-  }: {
-    id: string;
-    amount: string;
-    expiry: number;
-    signature: string;
-  }): Promise<number> {
+    iteration,
+    receipt,
+  }: UpdateChannelParams): Promise<number> {
     // Get current channel.
     let channel = await this.getChannel(id);
     if (!channel) {
-      throw new Error(`Channel with given ID (${id}) does not exist.`);
+      throw new NotFoundError(
+        `Channel with given ID (${id}) does not exist.`,
+        "CHANNEL_NOT_FOUND"
+      );
     }
 
-    // Ensure that this channel is still open.
-    this.assertChannelIsOpen(id);
-
+    const previousIteration = channel.state.iteration;
+    if (iteration !== undefined && iteration !== previousIteration + 1) {
+      throw new ConflictError(
+        `Channel with given ID (${id}) was updated concurrently. Please retry.`,
+        "CONCURRENT_UPDATE"
+      );
+    }
     const timestamp = Math.floor(new Date().getTime() / 1000);
     // Update the channel entry.
     channel = {
@@ -228,81 +461,149 @@ export class ChannelCache {
       state: {
         timestamp,
         // Increasing iterations by 1.
-        iteration: channel.state.iteration + 1,
+        iteration: previousIteration + 1,
         amount,
         expiry,
         signature,
+        receipt,
       },
     };
 
-    // Record the channel entry.
-    let res = await this.data.hset(
-      `${this.prefix}:channel`,
+    // Write the new state only if the channel is still open and nobody else updated it since
+    // we read it, then record it in the channel's history.
+    const res = (await this.data.eval(
+      `
+      local current = redis.call("GET", KEYS[1])
+      if not current then
+        return -1
+      end
+      if redis.call("SISMEMBER", KEYS[2], ARGV[1]) == 0 then
+        return -2
+      end
+      if cjson.decode(current).state.iteration ~= tonumber(ARGV[5]) then
+        return -3
+      end
+      redis.call("SET", KEYS[1], ARGV[2])
+      redis.call("ZADD", KEYS[3], ARGV[4], ARGV[1])
+      redis.call("RPUSH", KEYS[4], ARGV[3])
+      return 1
+      `,
+      4,
+      this.channelKey(id),
+      `${this.prefix}:open`,
+      `${this.prefix}:index:updated`,
+      this.historyKey(id),
       id,
-      JSON.stringify(channel)
-    );
-
-    // TODO: Check responses?
+      JSON.stringify(channel),
+      JSON.stringify(channel.state),
+      timestamp,
+      previousIteration
+    )) as number;
+    if (res === -1) {
+      throw new NotFoundError(
+        `Channel with given ID (${id}) does not exist.`,
+        "CHANNEL_NOT_FOUND"
+      );
+    }
+    if (res === -2) {
+      throw new ConflictError(
+        `Channel with given ID ${id} is no longer open.`,
+        "CHANNEL_CLOSED"
+      );
+    }
+    if (res === -3) {
+      throw new ConflictError(
+        `Channel with given ID (${id}) was updated concurrently. Please retry.`,
+        "CONCURRENT_UPDATE"
+      );
+    }
 
-    return Number(res >= 1);
+    await this.applyRetention(id);
+    return res;
   }
 
-  private async assertChannelIsOpen(id: string) {
-    const res = await this.data.hget(`${this.prefix}:list`, "open");
-    const channelList = res
-      ? (JSON.parse(res) as ChannelList)
-      : ([] as ChannelList);
-    const index = channelList.findIndex((value) => value === id);
-    if (index === -1) {
-      throw new Error(`Channel with given ID ${id} is no longer open.`);
+  /**
+   * Migrate data stored in the legacy layout (a single hash of channels, with open and closed
+   * lists as JSON arrays) into the current layout. Safe to call on every startup.
+   *
+   * The legacy lists were often never written, so only channels listed as closed are known to
+   * be closed. The rest are left unverified, for the node to check on-chain whether they were
+   * claimed.
+   *
+   * @returns Number of channels migrated.
+   */
+  public async migrate(): Promise<number> {
+    const versionKey = `${this.prefix}:version`;
+    if ((await this.data.get(versionKey)) === ChannelCache.VERSION) {
+      return 0;
     }
+
+    const legacyChannels = await this.data.hgetall(`${this.prefix}:channel`);
+    const legacyClosed = await this.data.hget(`${this.prefix}:list`, "closed");
+    const closed = new Set(
+      legacyClosed ? (JSON.parse(legacyClosed) as ChannelList) : []
+    );
+
+    let migrated = 0;
+    for (const [id, json] of Object.entries(legacyChannels)) {
+      const channel = JSON.parse(json) as Channel;
+      const tx = this.data
+        .multi()
+        .set(this.channelKey(id), json)
+        .sadd(`${this.prefix}:${closed.has(id) ? "closed" : "unverified"}`, id)
+        .sadd(this.indexKey("chain", channel.chainId), id)
+        .sadd(this.indexKey("asset", channel.asset), id)
+        .sadd(this.indexKey("sender", channel.sender), id)
+        .zadd(`${this.prefix}:index:updated`, channel.state.timestamp, id)
+        .hdel(`${this.prefix}:channel`, id);
+      // Seed the history with the latest state if the channel doesn't have one yet.
+      if ((await this.data.llen(this.historyKey(id))) === 0) {
+        tx.rpush(this.historyKey(id), JSON.stringify(channel.state));
+      }
+      await tx.exec();
+      migrated++;
+    }
+
+    await this.data
+      .multi()
+      .del(`${this.prefix}:channel`, `${this.prefix}:list`)
+      .set(versionKey, ChannelCache.VERSION)
+      .exec();
+    return migrated;
   }
 
-  private async updateChannelList(
-    which: "open" | "closed",
-    ids: string[],
-    remove: boolean
-  ): Promise<boolean[]> {
-    // Get current list of open channels.
-    const getRes = await this.data.hget(`${this.prefix}:list`, which);
-    const success: boolean[] = [];
-    // If the channel list does not already exist, we'll start with an empty array.
-    const channelList = getRes
-      ? (JSON.parse(getRes) as ChannelList)
-      : ([] as ChannelList);
-    for (const id of ids) {
-      // Find the target channel index. If this is an insert operation, we want to make sure
-      // it doesn't already exist.
-      const targetChannelIndex = channelList.findIndex((value) => value === id);
-
-      if (remove) {
-        // Make sure the entry already exists.
-        if (targetChannelIndex === -1) {
-          success.push(false);
-          continue;
-        }
-        // Remove target value from array.
-        channelList.splice(targetChannelIndex, 1);
-      } else {
-        // Make sure the entry does not exist.
-        if (targetChannelIndex !== -1) {
-          success.push(false);
-          continue;
+  /**
+   * Drop history entries outside the retention policy, always keeping the latest state.
+   */
+  private async applyRetention(id: string) {
+    const key = this.historyKey(id);
+    const { maxEntries, maxAge } = this.retention;
+    if (maxEntries) {
+      await this.data.ltrim(key, -maxEntries, -1);
+    }
+    if (maxAge) {
+      const cutoff = Math.floor(new Date().getTime() / 1000) - maxAge;
+      // Pop expired entries from the front.
+      while ((await this.data.llen(key)) > 1) {
+        const oldest = await this.data.lindex(key, 0);
+        if ((JSON.parse(oldest) as ChannelState).timestamp >= cutoff) {
+          break;
         }
-        // Insert target value into array.
-        channelList.push(id);
+        await this.data.lpop(key);
       }
     }
+  }
 
-    // Commit the new change.
-    const setRes = await this.data.hset(
-      `${this.prefix}:${which}`,
-      JSON.stringify(channelList)
-    );
+  private channelKey(id: string): string {
+    return `${this.prefix}:channel:${id}`;
+  }
 
-    // TODO: Check res?
+  private historyKey(id: string): string {
+    return `${this.prefix}:history:${id}`;
+  }
 
-    return success;
+  private indexKey(index: "chain" | "asset" | "sender", value: string): string {
+    return `${this.prefix}:index:${index}:${value.toLowerCase()}`;
   }
 
   /**
@@ -0,0 +1,323 @@
+import { Receipt } from "./receipts.ts";
+import { SignatureScheme } from "./signatures.ts";
+
+/**
+ * Storage for channel data. Implemented by the Redis-backed `ChannelCache`, the in-memory
+ * `MemoryChannelStore` and the SQLite-backed `SqliteChannelStore`.
+ */
+
+// Static, fixed information regarding a given channel session.
+export type ChannelHeader = {
+  // Channel ID.
+  id: string;
+  // Chain where redemptions should occur.
+  chainId: string;
+  // The subscriber, sender of funds.
+  sender: string;
+  // The provider, receiver of funds.
+  receiver: string;
+  // The asset being delivered.
+  asset: string;
+  // How the subscriber signs states. Channels opened before schemes were declared use
+  // "packed".
+  scheme?: SignatureScheme;
+};
+
+// The last available state of a given channel session.
+export type ChannelState = {
+  // Timestamp of last update (in seconds).
+  timestamp: number;
+  // The number of updates that have happened so far for this channel.
+  iteration: number;
+  // The amount of tokens pledged in latest update.
+  amount: string;
+  // The latest signed expiry time (in seconds).
+  expiry: number;
+  // The latest signature.
+  signature: string;
+  // The provider's countersigned receipt for this state.
+  receipt?: Receipt;
+};
+
+// The stored object, containing both the static header and the active state.
+export type Channel = ChannelHeader & {
+  state: ChannelState;
+};
+
+// Why a channel was claimed on-chain. Channels whose latest state expired before it could be
+// claimed are closed without a claim, and recorded as "expired".
+export type ClaimReason =
+  | "idle"
+  | "expiry"
+  | "withdrawal"
+  | "superseded"
+  | "retirement"
+  | "expired";
+
+// Record of a claim submitted for a given channel, or of why it was closed without one.
+export type ClaimRecord = {
+  // Channel ID.
+  id: string;
+  // Why the claim happened.
+  reason: ClaimReason;
+  // Human-readable details about the claim decision.
+  detail: string;
+  // Timestamp of the claim (in seconds).
+  timestamp: number;
+};
+
+// Service consumed through a channel.
+export type Usage = {
+  // Number of requests served.
+  requests: number;
+  // Number of bytes served.
+  bytes: number;
+  // Time of service (in seconds).
+  seconds: number;
+};
+
+// A channel ID handed out by `generateId`, held for one subscriber to open a channel with.
+export type Reservation = {
+  // Channel ID.
+  id: string;
+  // Chain the channel must be opened on.
+  chainId: string;
+  // The subscriber the ID was generated for.
+  subscriber: string;
+  // Time after which the ID can no longer be used to open a channel (in seconds).
+  expiresAt: number;
+};
+
+// List of channel IDs. Used in retrieving open and closed channels.
+export type ChannelList = Array<string>;
+
+// Filters for looking up channels through the secondary indexes. All filters are combined.
+export type ChannelFilter = {
+  status?: "open" | "closed";
+  chainId?: string;
+  asset?: string;
+  sender?: string;
+};
+
+// How long accepted states are kept in a channel's history. The latest state is always kept.
+export type HistoryRetention = {
+  // Maximum number of states kept per channel. Unlimited if not set.
+  maxEntries?: number;
+  // Maximum age of kept states (in seconds). Unlimited if not set.
+  maxAge?: number;
+};
+
+// Params for inserting a new channel.
+export type InsertChannelParams = {
+  id: string;
+  chainId: string;
+  sender: string;
+  receiver: string;
+  asset: string;
+  scheme?: SignatureScheme;
+  amount: string;
+  expiry: number;
+  signature: string;
+  // Receipt for the initial state (iteration 1).
+  receipt?: Receipt;
+};
+
+// Params for updating the state of an existing channel.
+export type UpdateChannelParams = {
+  id: string;
+  amount: string;
+  expiry: number;
+  signature: string;
+  // Iteration the new state is expected to get. The update fails if the channel has moved on
+  // since, e.g. because the receipt was signed for a different iteration.
+  iteration?: number;
+  // Receipt for the new state.
+  receipt?: Receipt;
+};
+
+export interface ChannelStore {
+  /**
+   * Prepare the store for use (e.g. create tables, run migrations). Called once on startup.
+   */
+  init(): Promise<void>;
+
+  /**
+   * Release any connections held by the store.
+   */
+  close(): Promise<void>;
+
+  /**
+   * Retrieve channel data for a given channel ID.
+   * @param id - The ID of the channel we are retrieving.
+   * @returns Channel data if exists, undefined otherwise.
+   */
+  getChannel(id: string): Promise<Channel | undefined>;
+
+  /**
+   * Retrieve every accepted state for a given channel, subject to the retention policy.
+   * @param id - The ID of the channel we are retrieving history for.
+   * @returns List of states, oldest first. Empty if the channel does not exist.
+   */
+  getChannelHistory(id: string): Promise<ChannelState[]>;
+
+  /**
+   * Retrieve the state of a given channel at a specific iteration.
+   * @param id - The ID of the channel.
+   * @param iteration - The iteration of the state we are retrieving.
+   * @returns The state if it exists and has been retained, undefined otherwise.
+   */
+  getChannelStateAt(
+    id: string,
+    iteration: number
+  ): Promise<ChannelState | undefined>;
+
+  /**
+   * Retrieve all open channels.
+   * @returns List of all currently open channels.
+   */
+  getOpenChannels(): Promise<ChannelList>;
+
+  /**
+   * Retrieve all closed channels.
+   * @returns List of all currently closed channels.
+   */
+  getClosedChannels(): Promise<ChannelList>;
+
+  /**
+   * Retrieve channels migrated from a legacy layout that didn't record whether they were
+   * claimed. They are neither open nor closed until resolved. Only stores that migrate such
+   * data implement this.
+   * @returns List of unverified channels.
+   */
+  getUnverifiedChannels?(): Promise<ChannelList>;
+
+  /**
+   * Settle the status of an unverified channel, e.g. once it was checked on-chain.
+   * @param id - The ID of the unverified channel.
+   * @param status - Whether the channel is still open or was already closed.
+   * @returns true if the channel was unverified.
+   */
+  resolveUnverifiedChannel?(
+    id: string,
+    status: "open" | "closed"
+  ): Promise<boolean>;
+
+  /**
+   * Look up channels matching all of the given filters.
+   * @param filter - Status, chain, asset and/or sender to match. Addresses are matched
+   * case-insensitively.
+   * @returns List of matching channel IDs.
+   */
+  findChannels(filter: ChannelFilter): Promise<ChannelList>;
+
+  /**
+   * Retrieve channels last updated within a given time window.
+   * @param from - Start of the window (in seconds, inclusive).
+   * @param to - End of the window (in seconds, inclusive).
+   * @returns List of channel IDs, least recently updated first.
+   */
+  getChannelsUpdatedBetween(from: number, to: number): Promise<ChannelList>;
+
+  /**
+   * Close channel(s) with given IDs.
+   * @param ids - The IDs of the channels we are closing.
+   * @returns true if all channels were closed, false if any were not open.
+   */
+  closeChannels(ids: string[]): Promise<boolean>;
+
+  /**
+   * Record why a channel was claimed.
+   * @param record - The claim record to store. Replaces any previous record for the channel.
+   */
+  recordClaim(record: ClaimRecord): Promise<void>;
+
+  /**
+   * Retrieve the claim record for a given channel ID.
+   * @param id - The ID of the claimed channel.
+   * @returns Claim record if exists, undefined otherwise.
+   */
+  getClaimRecord(id: string): Promise<ClaimRecord | undefined>;
+
+  /**
+   * Add to the usage recorded against a channel.
+   * @param id - The ID of the channel.
+   * @param usage - The usage to add.
+   * @returns Total usage recorded against the channel, including the addition.
+   */
+  recordUsage(id: string, usage: Usage): Promise<Usage>;
+
+  /**
+   * Retrieve the total usage recorded against a channel.
+   * @param id - The ID of the channel.
+   * @returns Total usage, all zero if none was recorded.
+   */
+  getUsage(id: string): Promise<Usage>;
+
+  /**
+   * Reserve a channel ID for a subscriber.
+   * @param reservation - The reservation to store. Replaces any previous one for the ID.
+   */
+  reserveId(reservation: Reservation): Promise<void>;
+
+  /**
+   * Retrieve the reservation for a given channel ID.
+   * @param id - The reserved channel ID.
+   * @returns The reservation if exists, undefined otherwise. May have expired but not yet
+   * been purged.
+   */
+  getReservation(id: string): Promise<Reservation | undefined>;
+
+  /**
+   * Release the reservation for a given channel ID, e.g. once a channel is opened with it.
+   * @param id - The reserved channel ID.
+   * @returns true if there was a reservation to release.
+   */
+  releaseReservation(id: string): Promise<boolean>;
+
+  /**
+   * Drop reservations that expired before the given time.
+   * @param before - Cutoff time (in seconds).
+   * @returns Number of reservations dropped.
+   */
+  purgeReservations(before: number): Promise<number>;
+
+  /**
+   * Creates an open channel entry for the given channel ID, starting its history with the
+   * initial state. Throws if the channel already exists.
+   * @returns 1 if created.
+   */
+  insertChannel(params: InsertChannelParams): Promise<number>;
+
+  /**
+   * Updates the state of an existing open channel, incrementing its iteration and appending
+   * the new state to its history. Throws if the channel does not exist, is closed, was
+   * updated concurrently, or would not end up at the expected iteration.
+   * @returns 1 if updated.
+   */
+  updateChannel(params: UpdateChannelParams): Promise<number>;
+}
+
+/**
+ * Drop history entries outside the retention policy, always keeping the latest state.
+ *
+ * @param history - List of states, oldest first.
+ * @param retention - The retention policy to apply.
+ * @returns The retained states, oldest first.
+ */
+export const applyRetention = (
+  history: ChannelState[],
+  retention: HistoryRetention
+): ChannelState[] => {
+  let retained = history;
+  if (retention.maxEntries) {
+    retained = retained.slice(-retention.maxEntries);
+  }
+  if (retention.maxAge) {
+    const cutoff = Math.floor(new Date().getTime() / 1000) - retention.maxAge;
+    const latest = retained[retained.length - 1];
+    retained = retained.filter(
+      (state) => state.timestamp >= cutoff || state === latest
+    );
+  }
+  return retained;
+};
@@ -0,0 +1,210 @@
+import type { RawData, WebSocket } from "ws";
+import { ConflictError, toErrorResponse, ValidationError } from "./errors.ts";
+import { ProviderNode } from "./ProviderNode.ts";
+import { log } from "./logging.ts";
+
+// Settings for streaming channel updates over WebSockets.
+export type StreamParams = {
+  // Number of received updates waiting to be processed at which the socket stops reading.
+  highWaterMark: number;
+  // Bytes queued for sending at which processing waits for the client to read its acks.
+  maxBufferedAmount: number;
+};
+
+// A compact channel update, as sent by the subscriber. `seq` is echoed back in the ack.
+type StreamUpdate = {
+  seq?: number;
+  amount: string;
+  expiry: number;
+  signature: string;
+};
+
+// Reply to a single update.
+type StreamAck =
+  | { seq?: number; ok: true; iteration: number; receipt: unknown }
+  | {
+      seq?: number;
+      ok: false;
+      error: { message: string; type: string; code: string };
+    };
+
+const toStreamError = (e: any) => {
+  const { message, type, code } = toErrorResponse(e).body;
+  return { message, type, code };
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A WebSocket session bound to a single open channel. Each message is a compact
+ * `{ seq?, amount, expiry, signature }` update, applied in order through
+ * `ProviderNode.updateChannel` and answered with an ack or error carrying the same `seq`.
+ *
+ * Updates are queued as they arrive. Once the queue reaches the high water mark the socket
+ * stops reading until it drains, and processing waits while the client is slow to read its
+ * acks. When the socket closes, updates already received are still applied, so the last
+ * accepted state always makes it to the store.
+ */
+export class ChannelStream {
+  private readonly provider: ProviderNode;
+  private readonly socket: WebSocket;
+  private readonly id: string;
+  private readonly params: StreamParams;
+  private readonly queue: RawData[] = [];
+  private bound?: Promise<boolean>;
+  private processing: boolean = false;
+  private paused: boolean = false;
+
+  constructor(
+    provider: ProviderNode,
+    socket: WebSocket,
+    id: string,
+    params: StreamParams
+  ) {
+    this.provider = provider;
+    this.socket = socket;
+    this.id = id;
+    this.params = params;
+  }
+
+  /**
+   * Start handling messages. Listeners are attached before any async work, so no update sent
+   * right after connecting is lost.
+   */
+  public start() {
+    this.socket.on("message", (data) => this.enqueue(data));
+    this.socket.on("close", () => {
+      if (this.queue.length > 0) {
+        log().info(
+          { channel: this.id, queued: this.queue.length },
+          "Stream closed, applying queued updates."
+        );
+      }
+    });
+    this.socket.on("error", (e) =>
+      log().warn({ channel: this.id, err: e }, "Stream error.")
+    );
+    this.bound = this.bind();
+    this.process();
+  }
+
+  /**
+   * Make sure the channel exists and is open before accepting updates for it.
+   */
+  private async bind(): Promise<boolean> {
+    try {
+      const channel = await this.provider.getChannel(this.id, false);
+      if (channel.status !== "open") {
+        throw new ConflictError(
+          `Channel with given ID ${this.id} is no longer open.`,
+          "CHANNEL_CLOSED"
+        );
+      }
+      return true;
+    } catch (e) {
+      this.send({ ok: false, error: toStreamError(e) });
+      // 1008: policy violation.
+      this.socket.close(1008, "Unable to bind to channel.");
+      return false;
+    }
+  }
+
+  private enqueue(data: RawData) {
+    this.queue.push(data);
+    if (!this.paused && this.queue.length >= this.params.highWaterMark) {
+      this.paused = true;
+      this.socket.pause();
+    }
+    this.process();
+  }
+
+  /**
+   * Apply queued updates one at a time, in the order they arrived.
+   */
+  private async process() {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      if (!(await this.bound)) {
+        this.queue.length = 0;
+        return;
+      }
+      while (this.queue.length > 0) {
+        await this.waitForClient();
+        const data = this.queue.shift();
+        if (this.paused && this.queue.length <= this.params.highWaterMark / 2) {
+          this.paused = false;
+          this.socket.resume();
+        }
+        this.send(await this.apply(data));
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async apply(data: RawData): Promise<StreamAck> {
+    let seq: number | undefined;
+    try {
+      const update = this.parse(data);
+      seq = update.seq;
+      const result = await this.provider.updateChannel({
+        id: this.id,
+        amount: update.amount,
+        expiry: update.expiry,
+        signature: update.signature,
+      });
+      return {
+        seq,
+        ok: true,
+        iteration: result.receipt.iteration,
+        receipt: result.receipt,
+      };
+    } catch (e) {
+      return { seq, ok: false, error: toStreamError(e) };
+    }
+  }
+
+  private parse(data: RawData): StreamUpdate {
+    let update: any;
+    try {
+      update = JSON.parse(data.toString());
+    } catch (e) {
+      throw new ValidationError("Update must be JSON.");
+    }
+    if (
+      typeof update !== "object" ||
+      update === null ||
+      (update.seq !== undefined && !Number.isInteger(update.seq)) ||
+      typeof update.amount !== "string" ||
+      !Number.isInteger(update.expiry) ||
+      typeof update.signature !== "string"
+    ) {
+      throw new ValidationError(
+        "Update must be { seq?: integer, amount: string, expiry: integer, signature: string }."
+      );
+    }
+    return update as StreamUpdate;
+  }
+
+  /**
+   * Wait while the client is slow to read what has already been sent.
+   */
+  private async waitForClient() {
+    while (
+      this.socket.readyState === this.socket.OPEN &&
+      this.socket.bufferedAmount > this.params.maxBufferedAmount
+    ) {
+      await sleep(10);
+    }
+  }
+
+  private send(ack: StreamAck) {
+    // Acks for updates applied after the socket closed have nowhere to go.
+    if (this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(JSON.stringify(ack));
+    }
+  }
+}
@@ -0,0 +1,258 @@
+import { ConflictError, NotFoundError } from "./errors.ts";
+import {
+  applyRetention,
+  Channel,
+  ChannelFilter,
+  ChannelList,
+  ChannelState,
+  ChannelStore,
+  ClaimRecord,
+  HistoryRetention,
+  InsertChannelParams,
+  Reservation,
+  UpdateChannelParams,
+  Usage,
+} from "./ChannelStore.ts";
+
+// Params for constructing the in-memory store.
+export type MemoryStoreParams = {
+  retention?: HistoryRetention;
+};
+
+/**
+ * Keeps all channel data in process memory. Suitable for tests and small deployments that can
+ * afford to lose state on restart.
+ *
+ * Every method works on copies, so callers can never mutate stored data by accident.
+ */
+export class MemoryChannelStore implements ChannelStore {
+  private readonly retention: HistoryRetention;
+  private readonly channels: Map<string, Channel> = new Map();
+  private readonly history: Map<string, ChannelState[]> = new Map();
+  private readonly claims: Map<string, ClaimRecord> = new Map();
+  private readonly usage: Map<string, Usage> = new Map();
+  private readonly reservations: Map<string, Reservation> = new Map();
+  private readonly open: Set<string> = new Set();
+  private readonly closed: Set<string> = new Set();
+
+  constructor({ retention }: MemoryStoreParams = {}) {
+    this.retention = retention ?? {};
+  }
+
+  public async init(): Promise<void> {}
+
+  public async close(): Promise<void> {}
+
+  public async getChannel(id: string): Promise<Channel | undefined> {
+    const channel = this.channels.get(id);
+    return channel ? structuredClone(channel) : undefined;
+  }
+
+  public async getChannelHistory(id: string): Promise<ChannelState[]> {
+    return structuredClone(this.history.get(id) ?? []);
+  }
+
+  public async getChannelStateAt(
+    id: string,
+    iteration: number
+  ): Promise<ChannelState | undefined> {
+    const history = await this.getChannelHistory(id);
+    return history.find((state) => state.iteration === iteration);
+  }
+
+  public async getOpenChannels(): Promise<ChannelList> {
+    return [...this.open];
+  }
+
+  public async getClosedChannels(): Promise<ChannelList> {
+    return [...this.closed];
+  }
+
+  public async findChannels(filter: ChannelFilter): Promise<ChannelList> {
+    const matches: ChannelList = [];
+    for (const channel of this.channels.values()) {
+      if (filter.status === "open" && !this.open.has(channel.id)) {
+        continue;
+      }
+      if (filter.status === "closed" && !this.closed.has(channel.id)) {
+        continue;
+      }
+      if (filter.chainId && channel.chainId !== filter.chainId) {
+        continue;
+      }
+      if (
+        filter.asset &&
+        channel.asset.toLowerCase() !== filter.asset.toLowerCase()
+      ) {
+        continue;
+      }
+      if (
+        filter.sender &&
+        channel.sender.toLowerCase() !== filter.sender.toLowerCase()
+      ) {
+        continue;
+      }
+      matches.push(channel.id);
+    }
+    return matches;
+  }
+
+  public async getChannelsUpdatedBetween(
+    from: number,
+    to: number
+  ): Promise<ChannelList> {
+    return [...this.channels.values()]
+      .filter(
+        (channel) =>
+          channel.state.timestamp >= from && channel.state.timestamp <= to
+      )
+      .sort((a, b) => a.state.timestamp - b.state.timestamp)
+      .map((channel) => channel.id);
+  }
+
+  public async closeChannels(ids: string[]): Promise<boolean> {
+    let closed = 0;
+    for (const id of ids) {
+      if (this.open.delete(id)) {
+        this.closed.add(id);
+        closed++;
+      }
+    }
+    return closed === ids.length;
+  }
+
+  public async recordClaim(record: ClaimRecord): Promise<void> {
+    this.claims.set(record.id, structuredClone(record));
+  }
+
+  public async getClaimRecord(id: string): Promise<ClaimRecord | undefined> {
+    const record = this.claims.get(id);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  public async recordUsage(id: string, usage: Usage): Promise<Usage> {
+    // Read and write without yielding, so concurrent additions aren't lost.
+    const total = {
+      ...(this.usage.get(id) ?? { requests: 0, bytes: 0, seconds: 0 }),
+    };
+    total.requests += usage.requests;
+    total.bytes += usage.bytes;
+    total.seconds += usage.seconds;
+    this.usage.set(id, total);
+    return { ...total };
+  }
+
+  public async getUsage(id: string): Promise<Usage> {
+    return { ...(this.usage.get(id) ?? { requests: 0, bytes: 0, seconds: 0 }) };
+  }
+
+  public async reserveId(reservation: Reservation): Promise<void> {
+    this.reservations.set(reservation.id, { ...reservation });
+  }
+
+  public async getReservation(id: string): Promise<Reservation | undefined> {
+    const reservation = this.reservations.get(id);
+    return reservation ? { ...reservation } : undefined;
+  }
+
+  public async releaseReservation(id: string): Promise<boolean> {
+    return this.reservations.delete(id);
+  }
+
+  public async purgeReservations(before: number): Promise<number> {
+    let purged = 0;
+    for (const [id, reservation] of this.reservations) {
+      if (reservation.expiresAt < before) {
+        this.reservations.delete(id);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  public async insertChannel({
+    id,
+    chainId,
+    sender,
+    receiver,
+    asset,
+    scheme,
+    amount,
+    expiry,
+    signature,
+    receipt,
+  }: InsertChannelParams): Promise<number> {
+    if (this.channels.has(id)) {
+      throw new ConflictError(
+        `Channel with given ID (${id}) already exists.`,
+        "CHANNEL_EXISTS"
+      );
+    }
+    const channel: Channel = {
+      id,
+      chainId,
+      sender,
+      receiver,
+      asset,
+      scheme,
+      state: {
+        timestamp: Math.floor(new Date().getTime() / 1000),
+        iteration: 1,
+        amount,
+        expiry,
+        signature,
+        receipt,
+      },
+    };
+    this.channels.set(id, channel);
+    this.history.set(id, [structuredClone(channel.state)]);
+    this.open.add(id);
+    return 1;
+  }
+
+  public async updateChannel({
+    id,
+    amount,
+    expiry,
+    signature,
+    iteration,
+    receipt,
+  }: UpdateChannelParams): Promise<number> {
+    const channel = this.channels.get(id);
+    if (!channel) {
+      throw new NotFoundError(
+        `Channel with given ID (${id}) does not exist.`,
+        "CHANNEL_NOT_FOUND"
+      );
+    }
+    if (!this.open.has(id)) {
+      throw new ConflictError(
+        `Channel with given ID ${id} is no longer open.`,
+        "CHANNEL_CLOSED"
+      );
+    }
+    if (iteration !== undefined && iteration !== channel.state.iteration + 1) {
+      throw new ConflictError(
+        `Channel with given ID (${id}) was updated concurrently. Please retry.`,
+        "CONCURRENT_UPDATE"
+      );
+    }
+    channel.state = {
+      timestamp: Math.floor(new Date().getTime() / 1000),
+      // Increasing iterations by 1.
+      iteration: channel.state.iteration + 1,
+      amount,
+      expiry,
+      signature,
+      receipt,
+    };
+    this.history.set(
+      id,
+      applyRetention(
+        [...(this.history.get(id) ?? []), structuredClone(channel.state)],
+        this.retention
+      )
+    );
+    return 1;
+  }
+}
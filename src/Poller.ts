@@ -0,0 +1,93 @@
+import { log } from "./logging.ts";
+
+/**
+ * Runs an async task on a fixed interval. The next run is only scheduled once the current one
+ * has finished, so cycles never overlap even if a task takes longer than the interval.
+ */
+export class Poller {
+  private readonly name: string;
+  private readonly interval: number;
+  private readonly task: () => Promise<void>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running: boolean = false;
+  private stopped: boolean = true;
+
+  // Time the last cycle started and finished (in ms), if any.
+  public lastStartedAt?: number;
+  public lastFinishedAt?: number;
+  // Time the next cycle is scheduled to start (in ms), if any.
+  public nextRunAt?: number;
+
+  /**
+   * @param name - Name of the task, used in logs.
+   * @param interval - Time between the end of one cycle and the start of the next (in ms).
+   * @param task - The task to run each cycle.
+   */
+  constructor(name: string, interval: number, task: () => Promise<void>) {
+    this.name = name;
+    this.interval = interval;
+    this.task = task;
+  }
+
+  /**
+   * Whether a cycle is currently in progress.
+   */
+  public get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start polling. The first cycle is scheduled after one interval.
+   */
+  public start() {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    this.schedule();
+  }
+
+  /**
+   * Stop polling. A cycle already in progress will run to completion.
+   */
+  public stop() {
+    this.stopped = true;
+    this.nextRunAt = undefined;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run a single cycle immediately, unless one is already in progress.
+   * @returns true if the cycle ran, false if skipped due to an overlapping cycle.
+   */
+  public async runOnce(): Promise<boolean> {
+    if (this.running) {
+      return false;
+    }
+    this.running = true;
+    this.lastStartedAt = new Date().getTime();
+    try {
+      await this.task();
+    } catch (e) {
+      log().error({ task: this.name, err: e }, "Background task failed.");
+    } finally {
+      this.running = false;
+      this.lastFinishedAt = new Date().getTime();
+    }
+    return true;
+  }
+
+  private schedule() {
+    if (this.stopped) {
+      return;
+    }
+    this.nextRunAt = new Date().getTime() + this.interval;
+    this.timer = setTimeout(async () => {
+      await this.runOnce();
+      this.schedule();
+    }, this.interval);
+  }
+}
@@ -1,75 +1,543 @@
 import {
   Wallet,
-  JsonRpcProvider,
   Interface,
-  TransactionResponse,
   HDNodeWallet,
   ErrorFragment,
+  TransactionReceipt,
+  getAddress,
+  TypedDataDomain,
+  parseUnits,
+  recoverAddress,
+  computeAddress,
+  MaxUint256,
 } from "ethers";
-import { Channel, ChannelCache } from "./ChannelCache";
+import {
+  Channel,
+  ChannelFilter,
+  ChannelHeader,
+  ChannelState,
+  ChannelStore,
+  ClaimReason,
+  ClaimRecord,
+  Usage,
+} from "./ChannelStore.ts";
+import {
+  getMeterStatus,
+  MeterStatus,
+  PaymentRequiredError,
+  Price,
+} from "./metering.ts";
+import {
+  ConflictError,
+  ForbiddenError,
+  fromOnChainError,
+  NotFoundError,
+  PaymentError,
+  UnavailableError,
+  UpstreamChainError,
+  ValidationError,
+} from "./errors.ts";
+import {
+  channelsOpened,
+  channelsUpdated,
+  claimsFailed,
+  claimsSucceeded,
+  InstrumentedProvider,
+  redeemDuration,
+} from "./metrics.ts";
+import { getRequestId, log, RingBuffer } from "./logging.ts";
+import { Poller } from "./Poller.ts";
+import { Receipt, signReceipt } from "./receipts.ts";
+import {
+  CHANNEL_STATE_TYPES,
+  getStateDigest,
+  getTypedDataDomain,
+  PACKED_STATE_TYPES,
+  SignatureScheme,
+  TypedDataParams,
+} from "./signatures.ts";
+import { EndpointStatus, PoolParams, ProviderPool } from "./ProviderPool.ts";
+import { FeePolicy, TransactionManager } from "./TransactionManager.ts";
 
-type ContractInfo = {
+export type ContractInfo = {
   abi: any[];
   address: string;
 };
 
+// Snapshot of a subscriber's escrow in the Payments contract for a given asset.
+export type EscrowStatus = {
+  // Balance currently held in escrow.
+  balance: string;
+  // Pending withdrawal request, if the subscriber has initiated one.
+  withdrawal?: {
+    // Time at which the withdrawal was requested (in seconds).
+    requestedAt: number;
+    // Time at which the funds may leave escrow (in seconds).
+    unlocksAt: number;
+    // Seconds remaining until the funds may leave escrow.
+    remaining: number;
+  };
+};
+
+// The result of an accepted channel open or update.
+export type ChannelUpdateResult = {
+  id: string;
+  escrow: EscrowStatus;
+  // The provider's countersigned receipt for the accepted state.
+  receipt: Receipt;
+};
+
+// A channel as returned by the query API.
+export type ChannelView = ChannelHeader & {
+  status: "open" | "closed";
+  // The current state. The signature is only included for admins.
+  state: Omit<ChannelState, "signature"> & { signature?: string };
+  // Why the channel was claimed, if it has been. Admin only.
+  claim?: ClaimRecord;
+  // Every retained state, oldest first. Admin only, and only when fetching a single channel.
+  history?: ChannelState[];
+};
+
+// Filters and pagination for listing channels.
+export type ChannelQuery = ChannelFilter & {
+  // Only include channels last updated within this window (in seconds, inclusive).
+  updatedFrom?: number;
+  updatedTo?: number;
+  // Channel ID to continue after, taken from `nextCursor` of the previous page.
+  cursor?: string;
+  // Maximum number of channels per page.
+  limit: number;
+};
+
+// A page of channels, along with totals across every channel matching the query.
+export type ChannelPage = {
+  channels: ChannelView[];
+  // Pass as `cursor` to fetch the next page. Not set on the last page.
+  nextCursor?: string;
+  totals: {
+    count: number;
+    open: number;
+    closed: number;
+    // Sum of the current amounts, keyed by chain ID then (lowercased) asset address. Not set
+    // when more than 1000 channels match.
+    amounts?: { [chainId: string]: { [asset: string]: string } };
+  };
+};
+
+// A channel selected for redemption, along with why it was selected.
+type ClaimRequest = {
+  channel: Channel;
+  reason: ClaimReason;
+  detail: string;
+};
+
+// The outcome of considering a channel for redemption.
+export type ClaimDecision = {
+  id: string;
+  reason: ClaimReason;
+  // "claimed" if the claim was confirmed, "deferred" if the channel isn't worth claiming yet,
+  // "skipped" if a claim for it is already pending or its chain is no longer configured,
+  // "failed" if the claim didn't go through, and "unclaimable" if the channel expired before
+  // it could be claimed, and was closed.
+  outcome: "claimed" | "deferred" | "skipped" | "failed" | "unclaimable";
+  detail: string;
+  // Estimated worst case gas cost of the claim and the value of the channel, both in wei of
+  // the chain's native currency. Only set when the channel's asset has a rate configured.
+  cost?: string;
+  value?: string;
+};
+
+// Status of the built-in redemption scheduler.
+export type SchedulerStatus = {
+  // Whether the scheduler has been started.
+  enabled: boolean;
+  // Whether a redemption cycle is currently in progress.
+  running: boolean;
+  // Time the next cycle is scheduled to start (in seconds).
+  nextRun?: number;
+  // Details of the last completed cycle.
+  lastRun?: {
+    // Times the cycle started and finished (in seconds).
+    startedAt: number;
+    finishedAt: number;
+    // Channels picked for redemption, along with why.
+    selected: { id: string; reason: ClaimReason; detail: string }[];
+    // IDs of the selected channels that were successfully claimed.
+    claimed: string[];
+    // What was done with each selected channel, and why.
+    decisions: ClaimDecision[];
+  };
+};
+
+// Settings for a chain supported by the node.
+export type ChainParams = {
+  // RPC endpoint URLs.
+  providers: string[];
+  // Health checking and quorum settings for the RPC endpoints.
+  pool?: Partial<PoolParams>;
+  // Accepted asset addresses.
+  assets: string[];
+  contracts: {
+    Payments: ContractInfo;
+    SemaphoreHSS: ContractInfo;
+  };
+  // Minimum time (in seconds) until expiry for channel states on this chain. Falls back to the
+  // node-wide expiry tolerance if not set.
+  expiryTolerance?: number;
+  // Index of the provider's key in SemaphoreHSS. Every provider key is scanned if not set.
+  providerIndex?: number;
+  // Overrides of the node-wide fee and confirmation policy for this chain.
+  transactions?: Partial<FeePolicy>;
+  // Value of one base unit of each asset in wei of the chain's native currency, as a decimal
+  // string, keyed by asset address. Used to weigh claims against their gas cost; claims in
+  // assets without a rate are always sent.
+  rates?: { [asset: string]: string };
+  // EIP-712 settings of the Payments contract. Channels signed as typed data are only accepted
+  // on chains that set this.
+  eip712?: TypedDataParams;
+  // Price of service in each asset, keyed by asset address. Usage in assets without a price
+  // is free.
+  prices?: { [asset: string]: Price };
+};
+
+// What clients need to sign channel states on a chain, for each supported scheme.
+export type SignatureSchema = {
+  packed: {
+    // Solidity types of the packed (id, provider, asset, amount, expiry) digest.
+    types: string[];
+    provider: string;
+  };
+  eip712?: {
+    domain: TypedDataDomain;
+    types: typeof CHANNEL_STATE_TYPES;
+    primaryType: "ChannelState";
+    provider: string;
+  };
+};
+
+// Progress of retiring the node, see `drain`.
+export type RetirementStatus = {
+  // "active" until retired. In "grace", opens are refused but updates still accepted; in
+  // "claiming", every open channel is being claimed; once "drained", nothing claimable is left.
+  phase: "active" | "grace" | "claiming" | "drained";
+  // Time retirement started, its grace period ends and claiming gives up (in seconds).
+  startedAt?: number;
+  graceEndsAt?: number;
+  deadline?: number;
+  // Number of claim rounds so far.
+  rounds: number;
+  // Channels claimed since retirement started.
+  claimed: string[];
+  // Open channels still to be claimed.
+  remaining: string[];
+  // Open channels that can no longer be claimed, and why.
+  unclaimable: { id: string; detail: string }[];
+  // What was done with each channel in the last round.
+  lastDecisions: ClaimDecision[];
+};
+
+// A failed chain call, kept for operators to inspect.
+export type ChainError = {
+  // Time of the failure (in seconds).
+  timestamp: number;
+  chainId: string;
+  // Host of the RPC endpoint that failed. Not set for failures not tied to a single endpoint,
+  // e.g. quorum disagreements or transaction submissions.
+  endpoint?: string;
+  // The contract function called.
+  method: string;
+  args: any[];
+  // The decoded custom error where possible, the RPC error otherwise.
+  error: {
+    name?: string;
+    code?: string;
+    message?: string;
+    signature?: string;
+    args?: string[];
+  };
+  // ID of the HTTP request the call was made for, if any.
+  requestId?: string;
+};
+
+// Number of recent chain errors kept.
+const MAX_CHAIN_ERRORS = 1000;
+
+// Most channels a listing sums amounts over, as each one has to be loaded.
+const MAX_SUMMED_CHANNELS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// What to do when a subscriber opens a channel while they already have one open for the same
+// chain and asset: allow it ("off"), queue the old channel for claim ("replace"), or refuse
+// the new one ("reject").
+export type SingleActivePolicy = "off" | "replace" | "reject";
+
+// Node-wide channel settings.
+export type ChannelSettings = {
+  // Default minimum time (in seconds) until expiry for channel states.
+  expiryTolerance: number;
+  singleActive: SingleActivePolicy;
+  // How long an ID from `generateId` may be used to open a channel (in seconds).
+  reservationTtl: number;
+  // Refuse channels on chains where the provider isn't registered in SemaphoreHSS.
+  requireRegistration: boolean;
+};
+
+// Whether the provider is registered in a chain's SemaphoreHSS, as of the last check.
+export type Registration = {
+  // "registered" once a key matching the provider wallet is found, "unregistered" if none is,
+  // "mismatch" if the key at the configured `providerIndex` belongs to another wallet, and
+  // "unknown" if the chain couldn't be read.
+  status: "registered" | "unregistered" | "mismatch" | "unknown";
+  // Index of the provider's key, if found.
+  providerIndex?: number;
+  // Time of the check (in seconds).
+  checkedAt: number;
+  detail: string;
+};
+
+// The call registering the provider in a chain's SemaphoreHSS, see `prepareRegistration`.
+export type RegistrationRequest = {
+  chainId: string;
+  // The `addProviderAndKey` call, for an operator to send if the provider wallet can't.
+  transaction: { to: string; data: string };
+  publicKey: string;
+  // Whether the provider wallet holds OPERATOR_ROLE, and can register itself.
+  hasOperatorRole: boolean;
+  // Hash of the registration transaction, if it was submitted.
+  hash?: string;
+  registration: Registration;
+};
+
+// Settings for transactions sent by the provider wallet.
+export type TransactionParams = FeePolicy & {
+  // Path to the journal file of pending transactions.
+  journal: string;
+};
+
 type ChannelManagerConfig = {
   chains: {
     [chainId: string]: {
       assets: string[];
-      providers: InstanceType<typeof JsonRpcProvider>[];
+      pool: ProviderPool;
       contracts: {
         Payments: ContractInfo;
         SemaphoreHSS: ContractInfo;
       };
+      expiryTolerance: number;
+      providerIndex?: number;
+      transactions: FeePolicy;
+      rates: { [asset: string]: string };
+      eip712?: TypedDataParams;
+      prices: { [asset: string]: Price };
     };
   };
-  channels: {
-    expiryTolerance: number;
-  };
+  channels: ChannelSettings;
+  transactions: FeePolicy;
 };
 
 export class ProviderNode {
   private readonly wallet: HDNodeWallet;
-  private readonly cache: ChannelCache;
-  private readonly config: ChannelManagerConfig;
+  private readonly store: ChannelStore;
+  private readonly transactions: TransactionManager;
+  private config: ChannelManagerConfig;
   private isRetired: boolean = false;
+  private retirement: RetirementStatus = {
+    phase: "active",
+    rounds: 0,
+    claimed: [],
+    remaining: [],
+    unclaimable: [],
+    lastDecisions: [],
+  };
+  private draining?: Promise<RetirementStatus>;
+  private registrations: Map<string, Registration> = new Map();
+  // IDs of channels with a claim currently being submitted.
+  private readonly claimsInFlight: Set<string> = new Set();
+  private withdrawalWatcher?: Poller;
+  private reservationSweeper?: Poller;
+  private scheduler?: Poller;
+  private lastSchedulerRun?: SchedulerStatus["lastRun"];
+  private readonly chainErrors: RingBuffer<ChainError> = new RingBuffer(
+    MAX_CHAIN_ERRORS
+  );
 
   constructor(
     mnemonic: string,
-    chains: {
-      [chainId: string]: {
-        providers: string[];
-        assets: string[];
-        contracts: {
-          Payments: ContractInfo;
-          SemaphoreHSS: ContractInfo;
-        };
-      };
-    },
-    expiryTolerance?: number
+    store: ChannelStore,
+    chains: { [chainId: string]: ChainParams },
+    channels?: Partial<ChannelSettings>,
+    transactions?: Partial<TransactionParams>
   ) {
-    const config: ChannelManagerConfig = {
-      chains: {},
-      channels: {
-        expiryTolerance: expiryTolerance ?? 60 * 60 * 48, // Default is 2 days minimum.
-      },
-    };
-    for (const chain of Object.keys(chains)) {
-      const urls = chains[chain].providers;
-      const providers: InstanceType<typeof JsonRpcProvider>[] = [];
-      for (const url of urls) {
-        providers.push(new JsonRpcProvider(url, parseInt(chain)));
+    const { journal, ...policy } = transactions ?? {};
+    this.config = this.buildConfig(chains, channels, policy);
+    this.store = store;
+    this.wallet = Wallet.fromPhrase(mnemonic);
+    this.transactions = new TransactionManager(
+      this.wallet,
+      journal ?? "transactions.json",
+      (chainId) => this.config.chains[chainId]?.pool.getProviders() ?? [],
+      (chainId) =>
+        this.config.chains[chainId]?.transactions ?? this.config.transactions
+    );
+  }
+
+  /**
+   * Load the transaction journal and resume tracking transactions left pending by a previous
+   * run. Must be called before any channels are claimed.
+   */
+  public async init(): Promise<void> {
+    await this.transactions.init();
+    await this.resolveUnverifiedChannels();
+  }
+
+  /**
+   * Settle channels the store migrated without knowing whether they were claimed: channels
+   * whose ID was used on-chain are closed, the rest are opened. Channels that can't be checked
+   * yet are left for the next redemption cycle.
+   */
+  private async resolveUnverifiedChannels() {
+    if (!this.store.getUnverifiedChannels) {
+      return;
+    }
+    for (const id of await this.store.getUnverifiedChannels()) {
+      const channel = await this.store.getChannel(id);
+      if (!channel || !this.isChainSupported(channel.chainId)) {
+        continue;
       }
-      config.chains[chain] = {
-        providers,
-        assets: chains[chain].assets,
-        contracts: chains[chain].contracts,
+      const used = await this.sendTransaction<boolean>(
+        channel.chainId,
+        this.config.chains[channel.chainId].contracts.Payments,
+        "isIdUsed",
+        [channel.sender, id],
+        true,
+        true
+      );
+      if (used === undefined) {
+        log().warn(
+          { id },
+          "Unable to check whether migrated channel was claimed."
+        );
+        continue;
+      }
+      const status = used ? "closed" : "open";
+      await this.store.resolveUnverifiedChannel(id, status);
+      log().info({ id, status }, "Resolved status of migrated channel.");
+    }
+  }
+
+  /**
+   * Replace the supported chains and their settings, e.g. after the config file is reloaded.
+   * Existing channels on chains that are no longer supported are left untouched.
+   *
+   * @param chains - The new chain settings, keyed by chain ID.
+   * @param channels - The new node-wide channel settings.
+   * @param transactions - The new node-wide fee and confirmation policy. The journal path
+   * can't be changed without a restart.
+   */
+  public reconfigure(
+    chains: { [chainId: string]: ChainParams },
+    channels?: Partial<ChannelSettings>,
+    transactions?: Partial<TransactionParams>
+  ) {
+    const { journal, ...policy } = transactions ?? {};
+    const previous = this.config;
+    this.config = this.buildConfig(chains, channels, policy);
+    // Contracts or provider indexes may have changed, so check again when next needed.
+    this.registrations.clear();
+    for (const chain of Object.values(previous.chains)) {
+      chain.pool.stop();
+    }
+  }
+
+  /**
+   * Get the health of every RPC endpoint, keyed by chain ID.
+   */
+  public getRpcStatus(): { [chainId: string]: EndpointStatus[] } {
+    const status: { [chainId: string]: EndpointStatus[] } = {};
+    for (const [chainId, chain] of Object.entries(this.config.chains)) {
+      status[chainId] = chain.pool.getStatus();
+    }
+    return status;
+  }
+
+  /**
+   * Get the most recent failed chain calls, newest first.
+   * @param filter.chainId - Only include failures on this chain.
+   * @param filter.since - Only include failures from this time on (in seconds).
+   * @param filter.limit - Maximum number of failures returned.
+   */
+  public getChainErrors({
+    chainId,
+    since,
+    limit,
+  }: {
+    chainId?: string;
+    since?: number;
+    limit?: number;
+  }): ChainError[] {
+    return this.chainErrors
+      .toArray()
+      .reverse()
+      .filter(
+        (entry) =>
+          (chainId === undefined || entry.chainId === chainId) &&
+          (since === undefined || entry.timestamp >= since)
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Count open channels and sum their latest signed amounts, which are still to be claimed.
+   * @returns Totals keyed by chain ID then (lowercased) asset address.
+   */
+  public async getOutstanding(): Promise<{
+    [chainId: string]: {
+      [asset: string]: { channels: number; amount: string };
+    };
+  }> {
+    const outstanding: {
+      [chainId: string]: {
+        [asset: string]: { channels: number; amount: string };
       };
+    } = {};
+    for (const id of await this.store.getOpenChannels()) {
+      const channel = await this.store.getChannel(id);
+      if (!channel) {
+        continue;
+      }
+      const assets = (outstanding[channel.chainId] ??= {});
+      const total = (assets[channel.asset.toLowerCase()] ??= {
+        channels: 0,
+        amount: "0",
+      });
+      total.channels++;
+      total.amount = (
+        BigInt(total.amount) + BigInt(channel.state.amount)
+      ).toString();
     }
+    return outstanding;
+  }
 
-    this.config = config;
-    this.wallet = Wallet.fromPhrase(mnemonic);
+  /**
+   * Get the provider wallet's native balance on every supported chain, which pays for claims.
+   * Chains where no endpoint answers are left out.
+   * @returns Balances in wei, keyed by chain ID.
+   */
+  public async getGasBalances(): Promise<{ [chainId: string]: string }> {
+    const balances: { [chainId: string]: string } = {};
+    for (const [chainId, chain] of Object.entries(this.config.chains)) {
+      for (const provider of chain.pool.getProviders()) {
+        try {
+          const balance = await provider.getBalance(this.wallet.address);
+          balances[chainId] = balance.toString();
+          break;
+        } catch (e) {
+          continue;
+        }
+      }
+    }
+    return balances;
   }
 
   /**
@@ -85,7 +553,9 @@ export class ProviderNode {
    * @param amount - The initial amount for this channel.
    * @param expiry - The on-chain expiry of the channel.
    * @param signature - The signature on (id, provider, asset, amount, expiry) digest.
-   * @returns The generated ID string of the new channel.
+   * @param scheme - How the subscriber signs states for this channel. Defaults to "packed".
+   * @returns The ID of the new channel, the subscriber's escrow status and a receipt for the
+   * initial state.
    */
   public async openChannel({
     id,
@@ -95,6 +565,7 @@ export class ProviderNode {
     amount,
     expiry,
     signature,
+    scheme = "packed",
   }: {
     id: string;
     chainId: string;
@@ -103,53 +574,125 @@ export class ProviderNode {
     amount: string;
     expiry: number;
     signature?: string;
-  }): Promise<string> {
+    scheme?: SignatureScheme;
+  }): Promise<ChannelUpdateResult> {
     // Ensure not retired.
     this.assertNotRetired();
 
-    // Make sure chain is supported.
+    // Make sure chain is supported, and we can be paid on it.
     if (!this.isChainSupported(chainId)) {
-      throw new Error("Chain is not supported.");
+      throw new ValidationError("Chain is not supported.", "UNSUPPORTED_CHAIN");
     }
+    await this.assertRegistered(chainId);
     // Make sure asset is supported.
     if (!this.isAssetSupported(chainId, asset)) {
-      throw new Error("Asset is not supported.");
+      throw new ValidationError("Asset is not supported.", "UNSUPPORTED_ASSET");
+    }
+    // Make sure the signature scheme can be claimed on this chain.
+    if (scheme !== "packed" && scheme !== "eip712") {
+      throw new ValidationError(
+        "Signature scheme is not supported.",
+        "UNSUPPORTED_SCHEME"
+      );
+    }
+    if (scheme === "eip712" && !this.config.chains[chainId].eip712) {
+      throw new ValidationError(
+        "Chain does not support EIP-712 signatures.",
+        "UNSUPPORTED_SCHEME"
+      );
     }
 
-    // Check to ensure the expiry is valid.
-    this.assertValidExpiry(expiry);
+    // Check to ensure the amount and expiry are valid.
+    this.assertValidAmount(amount);
+    this.assertValidExpiry(chainId, expiry);
+
+    // Make sure the ID was generated for this subscriber and has never been claimed.
+    await this.assertReservedId(id, chainId, subscriber);
+
+    // Refuse a second channel for the same chain and asset, if configured to.
+    if (this.config.channels.singleActive === "reject") {
+      const [active] = await this.store.findChannels({
+        status: "open",
+        chainId,
+        asset,
+        sender: subscriber,
+      });
+      if (active) {
+        throw new ConflictError(
+          `Subscriber already has an open channel (${active}) for this chain and asset.`,
+          "CHANNEL_ALREADY_OPEN",
+          { channel: active }
+        );
+      }
+    }
 
     // Check if subscriber address is a valid subscriber.
-    if (!this.checkIfSubscriber(chainId, subscriber)) {
-      throw new Error("Not a valid subscriber address.");
+    if (!(await this.checkIfSubscriber(chainId, subscriber))) {
+      throw new ForbiddenError(
+        "Not a valid subscriber address.",
+        "NOT_SUBSCRIBER"
+      );
     }
 
-    // Verify that the signature works.
-    await this.assertValidSignature({
+    // Verify that the signature was produced by the subscriber.
+    this.assertValidSignature({
+      id,
+      chainId,
+      scheme,
+      sender: subscriber,
+      asset,
+      amount,
+      expiry,
+      signature,
+    });
+
+    // Make sure the subscriber has enough funds in escrow to cover the amount.
+    const escrow = await this.assertSufficientEscrow(
+      id,
+      chainId,
+      subscriber,
+      asset,
+      amount
+    );
+
+    // Make sure the initial state could actually be claimed on-chain.
+    await this.assertClaimableOnChain({
       id,
       chainId,
+      scheme,
       asset,
       amount,
       expiry,
       signature,
     });
 
+    // Countersign the initial state, so the subscriber has proof it was accepted.
+    const receipt = signReceipt(this.wallet, {
+      id,
+      iteration: 1,
+      amount,
+      expiry,
+      signature,
+    });
     // Init payment channel.
-    this.cache.insertChannel({
+    await this.store.insertChannel({
       id,
       chainId,
       sender: subscriber,
+      receiver: this.wallet.address,
       asset,
+      scheme,
       amount,
       expiry,
       signature,
+      receipt,
     });
+    await this.store.releaseReservation(id);
+    channelsOpened.inc({ chain: chainId, asset: asset.toLowerCase() });
+    // With the "replace" policy, any channel the subscriber already had open for this chain
+    // and asset is now superseded, and claimed by the next redemption cycle.
 
-    // TODO:
-    // Subscriber may already have an open channel on this chain, and may be unideal to have more
-    // than one open at a time. If they do have one open, we should close that one and open another.
-
-    return id;
+    return { id, escrow, receipt };
   }
 
   /**
@@ -161,6 +704,8 @@ export class ProviderNode {
    * amount of time from the current time (e.g. 2 days).
    * @param signature - The signature of the subscriber on (id, provider, asset, amount,
    * expiry) digest.
+   * @returns The ID of the channel, the subscriber's escrow status and a receipt for the new
+   * state.
    */
   public async updateChannel({
     id,
@@ -172,193 +717,1722 @@ export class ProviderNode {
     amount: string;
     expiry: number;
     signature?: string;
-  }) {
-    // Ensure not retired.
-    this.assertNotRetired();
-
-    // Check to ensure the expiry is valid.
-    this.assertValidExpiry(expiry);
+  }): Promise<ChannelUpdateResult> {
+    // Ensure not retired, or still within the grace period.
+    this.assertAcceptingUpdates();
 
     // Get the current channel.
-    const channel = await this.cache.getChannel(id);
+    const channel = await this.store.getChannel(id);
+    if (!channel) {
+      throw new NotFoundError(
+        `Channel with given ID (${id}) does not exist.`,
+        "CHANNEL_NOT_FOUND"
+      );
+    }
+    if (!this.isChainSupported(channel.chainId)) {
+      throw new ValidationError("Chain is not supported.", "UNSUPPORTED_CHAIN");
+    }
+
+    // Check to ensure the amount and expiry are valid.
+    this.assertValidAmount(amount);
+    this.assertValidExpiry(channel.chainId, expiry);
+
+    // The amount pledged should only ever go up.
+    this.assertAmountIncreased(channel.state.amount, amount);
 
-    // Verify that the signature works.
-    await this.assertValidSignature({
+    // Verify that the signature was produced by the channel's sender.
+    this.assertValidSignature({
       id,
       chainId: channel.chainId,
+      scheme: channel.scheme ?? "packed",
+      sender: channel.sender,
       asset: channel.asset,
       amount,
       expiry,
       signature,
     });
 
+    // Make sure the subscriber has enough funds in escrow to cover the new amount.
+    const escrow = await this.assertSufficientEscrow(
+      id,
+      channel.chainId,
+      channel.sender,
+      channel.asset,
+      amount
+    );
+
+    // Countersign the new state. The store refuses the update if another one got in first,
+    // so the receipt always matches the stored iteration.
+    const iteration = channel.state.iteration + 1;
+    const receipt = signReceipt(this.wallet, {
+      id,
+      iteration,
+      amount,
+      expiry,
+      signature,
+    });
     // Finally, update the channel's current state.
-    await this.cache.updateChannel({
+    await this.store.updateChannel({
       id,
       amount,
       expiry,
       signature,
+      iteration,
+      receipt,
     });
+    channelsUpdated.inc({
+      chain: channel.chainId,
+      asset: channel.asset.toLowerCase(),
+    });
+
+    return { id, escrow, receipt };
   }
 
   /**
-   * Submit `claim()` calls for all channels with a specified minimum amount of time since
-   * last updated.
-   * @param withMinTime - Minimum time in seconds for a channel to exist without updates to
-   * qualify for redemption.
-   * @returns Number of channels redeemed.
+   * Retrieve the accepted states of a channel, oldest first.
+   * @param id - The ID of the channel.
+   * @param iteration - If specified, only the state at this iteration is returned.
+   * @returns List of states, subject to the history retention policy.
    */
-  public async redeemChannels(withMinTime): Promise<number> {
-    const openChannels = await this.cache.getOpenChannels();
-    const closingChannels = [];
-    for (const id of openChannels) {
-      const channel = await this.cache.getChannel(id);
-      // Check to see if we want to close out this channel based on how long it's lived.
-      if (
-        Math.floor(new Date().getTime() / 1000) - channel.state.timestamp >
-        withMinTime
-      ) {
-        closingChannels.push(channel);
-      }
+  public async getChannelHistory(
+    id: string,
+    iteration?: number
+  ): Promise<ChannelState[]> {
+    const channel = await this.store.getChannel(id);
+    if (!channel) {
+      throw new NotFoundError(
+        `Channel with given ID (${id}) does not exist.`,
+        "CHANNEL_NOT_FOUND"
+      );
+    }
+    if (iteration === undefined) {
+      return await this.store.getChannelHistory(id);
+    }
+    const state = await this.store.getChannelStateAt(id, iteration);
+    if (!state) {
+      throw new NotFoundError(
+        `State at iteration ${iteration} of channel ${id} was not found.`,
+        "STATE_NOT_FOUND"
+      );
     }
-    await this.closeChannels(closingChannels);
-    return closingChannels.length;
+    return [state];
   }
 
   /**
-   * Retire this provider node instance, preventing any new incoming channels.
+   * Retrieve a single channel's header and current state.
+   * @param id - The ID of the channel.
+   * @param admin - Whether to include admin only fields (signature, claim record, history).
+   * @returns The channel.
    */
-  public retire() {
-    this.isRetired = true;
-  }
-
-  private async closeChannels(channels: Channel[]) {
-    // TODO: Replace with batch close.
-    for (const channel of channels) {
-      // Attempt to redeem the channel on-chain.
-      let res = await this.sendTransaction<any>(
-        channel.chainId,
-        this.config.chains[channel.chainId].contracts.Payments,
-        "claim",
-        [
-          channel.id,
-          channel.asset,
-          channel.state.amount,
-          channel.state.expiry,
-          channel.state.signature,
-        ],
-        false
-      );
-      if (!res) {
-        console.log("Unable to close channel with ID:", channel.id);
-        continue;
-      }
+  public async getChannel(id: string, admin: boolean): Promise<ChannelView> {
+    const channel = await this.store.getChannel(id);
+    if (!channel) {
+      throw new NotFoundError(
+        `Channel with given ID (${id}) does not exist.`,
+        "CHANNEL_NOT_FOUND"
+      );
     }
-    // Close out the channel in the cache.
-    const success = this.cache.closeChannels(
-      channels.map((channel) => channel.id)
-    );
+    // Look the status up through the sender index to avoid scanning every open channel.
+    const open = await this.store.findChannels({
+      status: "open",
+      chainId: channel.chainId,
+      sender: channel.sender,
+    });
+    const view = await this.toChannelView(channel, open.includes(id), admin);
+    if (admin) {
+      view.history = await this.store.getChannelHistory(id);
+    }
+    return view;
   }
 
-  /** Generate a random ID for a state channel session.
-   * @param chainId - ID of the chain to call `getRandomId` on.
-   * @param subscriber - The subscriber address
+  /**
+   * List channels matching the given filters, ordered by ID.
+   * @param query - Filters and pagination.
+   * @param admin - Whether to include admin only fields (signature, claim record).
+   * @returns A page of channels, along with totals across every matching channel.
    */
-  public async generateId(
-    chainId: string,
-    subscriber: string
-  ): Promise<string> {
-    const id = await this.sendTransaction<string>(
-      chainId,
-      this.config.chains[chainId].contracts.Payments,
-      "getRandomId",
-      [subscriber, this.wallet.address, Math.floor(Math.random() * 100000 + 1)],
-      true
+  public async listChannels(
+    query: ChannelQuery,
+    admin: boolean
+  ): Promise<ChannelPage> {
+    const { updatedFrom, updatedTo, cursor, limit, ...filter } = query;
+    let ids = await this.store.findChannels(filter);
+    if (updatedFrom !== undefined || updatedTo !== undefined) {
+      const updated = new Set(
+        await this.store.getChannelsUpdatedBetween(
+          updatedFrom ?? 0,
+          updatedTo ?? Number.MAX_SAFE_INTEGER
+        )
+      );
+      ids = ids.filter((id) => updated.has(id));
+    }
+    // IDs never change, so ordering by them keeps cursors stable as channels are updated.
+    ids.sort();
+
+    const open = new Set(
+      filter.status
+        ? filter.status === "open"
+          ? ids
+          : []
+        : await this.store.findChannels({ ...filter, status: "open" })
     );
-    return id;
-  }
+    const openCount = ids.filter((id) => open.has(id)).length;
+    const page: ChannelPage = {
+      channels: [],
+      totals: {
+        count: ids.length,
+        open: openCount,
+        closed: ids.length - openCount,
+      },
+    };
 
-  private isChainSupported(chainId: string): boolean {
-    for (const chain in Object.keys(this.config.chains)) {
-      if (chain === chainId) {
-        return true;
+    const remaining =
+      cursor === undefined ? ids : ids.filter((id) => id > cursor);
+    for (const id of remaining.slice(0, limit)) {
+      const channel = await this.store.getChannel(id);
+      if (channel) {
+        page.channels.push(
+          await this.toChannelView(channel, open.has(id), admin)
+        );
       }
     }
-    return false;
-  }
+    if (remaining.length > limit) {
+      page.nextCursor = remaining[limit - 1];
+    }
 
-  private isAssetSupported(chainId: string, asset: string): boolean {
-    for (const assetAddress in this.config.chains[chainId].assets) {
-      if (asset === assetAddress) {
-        return true;
+    // Summing amounts means loading every matching channel, so only do it for narrow queries.
+    if (ids.length <= MAX_SUMMED_CHANNELS) {
+      const amounts: ChannelPage["totals"]["amounts"] = {};
+      for (const id of ids) {
+        const channel = await this.store.getChannel(id);
+        if (!channel) {
+          continue;
+        }
+        const chainAmounts = (amounts[channel.chainId] ??= {});
+        const asset = channel.asset.toLowerCase();
+        chainAmounts[asset] = (
+          BigInt(chainAmounts[asset] ?? 0) + BigInt(channel.state.amount)
+        ).toString();
       }
+      page.totals.amounts = amounts;
     }
-    return false;
+    return page;
   }
 
-  private assertNotRetired() {
-    if (this.isRetired) {
-      throw new Error("Provider is no longer accepting incoming connections.");
+  /**
+   * Get what clients need to sign channel states on a chain: the packed digest layout, and
+   * the EIP-712 domain and types if the chain supports typed-data signatures.
+   * @param chainId - The chain the channel would be redeemed on.
+   */
+  public getSignatureSchema(chainId: string): SignatureSchema {
+    if (!this.isChainSupported(chainId)) {
+      throw new ValidationError("Chain is not supported.", "UNSUPPORTED_CHAIN");
     }
+    const schema: SignatureSchema = {
+      packed: { types: PACKED_STATE_TYPES, provider: this.wallet.address },
+    };
+    const domain = this.getTypedDataDomain(chainId);
+    if (domain) {
+      schema.eip712 = {
+        domain,
+        types: CHANNEL_STATE_TYPES,
+        primaryType: "ChannelState",
+        provider: this.wallet.address,
+      };
+    }
+    return schema;
   }
 
-  private assertValidExpiry(expiry: number) {
-    // Check to ensure the expiry is valid.
-    if (
-      expiry - Math.floor(new Date().getTime() / 1000) <
-      this.config.channels.expiryTolerance
-    ) {
-      throw new Error("Time til expiry is insufficient.");
+  /**
+   * Record service consumed through a channel, and make sure its subscriber has paid for it.
+   * @param id - The ID of the channel.
+   * @param usage - The usage to add.
+   * @returns The channel's meter status, including the new usage.
+   * @throws PaymentRequiredError if the balance owed now exceeds the credit limit. The usage
+   * is recorded regardless.
+   */
+  public async recordUsage(id: string, usage: Usage): Promise<MeterStatus> {
+    const channel = await this.store.getChannel(id);
+    if (!channel) {
+      throw new NotFoundError(
+        `Channel with given ID (${id}) does not exist.`,
+        "CHANNEL_NOT_FOUND"
+      );
+    }
+    const total = await this.store.recordUsage(id, usage);
+    const status = getMeterStatus(
+      id,
+      total,
+      channel.state.amount,
+      this.getPrice(channel)
+    );
+    if (!status.allowed) {
+      throw new PaymentRequiredError(status);
     }
+    return status;
   }
 
-  private async checkIfSubscriber(
-    chainId: string,
-    subscriber: string
-  ): Promise<boolean> {
-    const contract = this.config.chains[chainId].contracts.SemaphoreHSS;
-    const result = await this.sendTransaction<boolean>(
-      chainId,
-      contract,
-      "isSubscriber",
-      [subscriber],
-      false
+  /**
+   * Compare the usage recorded against a channel with its latest signed amount.
+   * @param id - The ID of the channel.
+   * @returns The channel's meter status.
+   */
+  public async getMeterStatus(id: string): Promise<MeterStatus> {
+    const channel = await this.store.getChannel(id);
+    if (!channel) {
+      throw new NotFoundError(
+        `Channel with given ID (${id}) does not exist.`,
+        "CHANNEL_NOT_FOUND"
+      );
+    }
+    return getMeterStatus(
+      id,
+      await this.store.getUsage(id),
+      channel.state.amount,
+      this.getPrice(channel)
     );
-    return result;
   }
 
-  private async assertValidSignature({
-    id,
-    chainId,
-    asset,
-    amount,
-    expiry,
-    signature,
-  }: {
+  /**
+   * Submit `claim()` calls for all channels with a specified minimum amount of time since
+   * last updated, or that are about to reach their signed expiry.
+   * @param withMinTime - Minimum time in seconds for a channel to exist without updates to
+   * qualify for redemption.
+   * @param expiryMargin - Channels whose expiry is within this many seconds also qualify.
+   * @returns What was done with each qualifying channel.
+   */
+  public async redeemChannels(
+    withMinTime: number,
+    expiryMargin: number = 0
+  ): Promise<ClaimDecision[]> {
+    const end = redeemDuration.startTimer({ trigger: "manual" });
+    try {
+      const closingChannels = await this.selectRedeemableChannels(
+        withMinTime,
+        expiryMargin
+      );
+      return await this.closeChannels(closingChannels);
+    } finally {
+      end();
+    }
+  }
+
+  /**
+   * Start redeeming channels on a fixed interval. Cycles never overlap: the next one is
+   * scheduled only once the previous one has finished.
+   * @param interval - Time in seconds between redemption cycles.
+   * @param ttl - Minimum time in seconds since last update for a channel to be redeemed.
+   * @param expiryMargin - Channels whose expiry is within this many seconds are redeemed.
+   */
+  public startScheduler(interval: number, ttl: number, expiryMargin: number) {
+    this.stopScheduler();
+    this.scheduler = new Poller(
+      "redemption scheduler",
+      interval * 1000,
+      async () => {
+        const startedAt = Math.floor(new Date().getTime() / 1000);
+        const end = redeemDuration.startTimer({ trigger: "scheduler" });
+        let selected: ClaimRequest[];
+        let decisions: ClaimDecision[];
+        try {
+          selected = await this.selectRedeemableChannels(ttl, expiryMargin);
+          decisions = await this.closeChannels(selected);
+        } finally {
+          end();
+        }
+        this.lastSchedulerRun = {
+          startedAt,
+          finishedAt: Math.floor(new Date().getTime() / 1000),
+          selected: selected.map(({ channel, reason, detail }) => ({
+            id: channel.id,
+            reason,
+            detail,
+          })),
+          claimed: decisions
+            .filter((decision) => decision.outcome === "claimed")
+            .map((decision) => decision.id),
+          decisions,
+        };
+      }
+    );
+    this.scheduler.start();
+  }
+
+  /**
+   * Stop the redemption scheduler.
+   */
+  public stopScheduler() {
+    this.scheduler?.stop();
+    this.scheduler = undefined;
+  }
+
+  /**
+   * Get the status of the redemption scheduler.
+   */
+  public getSchedulerStatus(): SchedulerStatus {
+    return {
+      enabled: !!this.scheduler,
+      running: this.scheduler?.isRunning ?? false,
+      nextRun: this.scheduler?.nextRunAt
+        ? Math.floor(this.scheduler.nextRunAt / 1000)
+        : undefined,
+      lastRun: this.lastSchedulerRun,
+    };
+  }
+
+  /**
+   * Claim all open channels belonging to subscribers with a pending withdrawal that will
+   * unlock within the given margin, before those funds can leave escrow.
+   * @param margin - Time in seconds before a withdrawal unlocks at which we claim.
+   * @returns Number of channels redeemed.
+   */
+  public async claimBeforeWithdrawals(margin: number): Promise<number> {
+    const end = redeemDuration.startTimer({ trigger: "withdrawal" });
+    try {
+      // Group open channels by the escrow account (chain, subscriber, asset) backing them.
+      const accounts: Map<string, Channel[]> = new Map();
+      for (const id of await this.store.getOpenChannels()) {
+        const channel = await this.store.getChannel(id);
+        // Withdrawals can't be checked on chains that are no longer configured.
+        if (!channel || !this.isChainSupported(channel.chainId)) {
+          continue;
+        }
+        const key = [channel.chainId, channel.sender, channel.asset]
+          .join(":")
+          .toLowerCase();
+        accounts.set(key, [...(accounts.get(key) ?? []), channel]);
+      }
+
+      const closingChannels: ClaimRequest[] = [];
+      for (const channels of accounts.values()) {
+        const { chainId, sender, asset } = channels[0];
+        let withdrawal: EscrowStatus["withdrawal"];
+        try {
+          withdrawal = await this.getWithdrawalRequest(chainId, sender, asset);
+        } catch (e) {
+          log().warn(
+            { chainId, sender, asset, err: e },
+            "Unable to check withdrawal request."
+          );
+          continue;
+        }
+        if (!withdrawal || withdrawal.remaining > margin) {
+          continue;
+        }
+        for (const channel of channels) {
+          closingChannels.push({
+            channel,
+            reason: "withdrawal",
+            detail:
+              `Subscriber requested a withdrawal at ${withdrawal.requestedAt}; funds may ` +
+              `leave escrow at ${withdrawal.unlocksAt} (${withdrawal.remaining}s remaining).`,
+          });
+        }
+      }
+      const decisions = await this.closeChannels(closingChannels);
+      return decisions.filter((decision) => decision.outcome === "claimed")
+        .length;
+    } finally {
+      end();
+    }
+  }
+
+  /**
+   * Start polling for pending withdrawals from subscribers with open channels, claiming their
+   * channels before the withdrawal wait period runs out.
+   * @param interval - Time in seconds between polls.
+   * @param margin - Time in seconds before a withdrawal unlocks at which we claim. Should be
+   * comfortably larger than the interval.
+   */
+  public startWithdrawalWatcher(interval: number, margin: number) {
+    this.stopWithdrawalWatcher();
+    this.withdrawalWatcher = new Poller(
+      "withdrawal watcher",
+      interval * 1000,
+      async () => {
+        await this.claimBeforeWithdrawals(margin);
+      }
+    );
+    this.withdrawalWatcher.start();
+  }
+
+  /**
+   * Stop polling for pending withdrawals.
+   */
+  public stopWithdrawalWatcher() {
+    this.withdrawalWatcher?.stop();
+    this.withdrawalWatcher = undefined;
+  }
+
+  /**
+   * Retire this provider node instance, preventing any new incoming channels.
+   */
+  public retire() {
+    this.isRetired = true;
+  }
+
+  /**
+   * Retire the node and claim every open channel. Updates to existing channels are accepted
+   * until the grace period ends. Background tasks are then stopped and open channels claimed
+   * in rounds, retrying ones that failed, until every channel left open is unclaimable (e.g.
+   * expired, or refused on-chain) or the timeout is reached. Calling it again returns the
+   * drain already in progress.
+   *
+   * @param grace - Time to keep accepting updates for (in seconds).
+   * @param retryInterval - Time between claim rounds that left claimable channels open (in
+   * seconds).
+   * @param timeout - Time to keep claiming for once the grace period ends (in seconds).
+   * Channels still open then are reported unclaimable.
+   * @returns The final retirement status, once drained.
+   */
+  public drain(
+    grace: number,
+    retryInterval: number,
+    timeout: number
+  ): Promise<RetirementStatus> {
+    if (!this.draining) {
+      this.draining = this.runDrain(grace, retryInterval, timeout);
+    }
+    return this.draining;
+  }
+
+  /**
+   * Get the progress of retiring the node.
+   */
+  public getRetirementStatus(): RetirementStatus {
+    return structuredClone(this.retirement);
+  }
+
+  private async runDrain(
+    grace: number,
+    retryInterval: number,
+    timeout: number
+  ): Promise<RetirementStatus> {
+    const now = () => Math.floor(new Date().getTime() / 1000);
+    this.retire();
+    this.retirement.phase = "grace";
+    this.retirement.startedAt = now();
+    this.retirement.graceEndsAt = now() + grace;
+    log().info({ grace }, "Retiring, no longer accepting new channels.");
+    await sleep(grace * 1000);
+
+    this.retirement.phase = "claiming";
+    this.retirement.deadline = now() + timeout;
+    this.stopScheduler();
+    this.stopWithdrawalWatcher();
+    this.stopReservationSweeper();
+    for (;;) {
+      const claims: ClaimRequest[] = [];
+      const unclaimable: RetirementStatus["unclaimable"] = [];
+      // Channels whose claim went through since the last check.
+      const confirmed: string[] = [];
+      // Why each channel was not claimed last round, reported if it runs out of time.
+      const lastDetails = new Map(
+        this.retirement.lastDecisions.map(({ id, detail }) => [id, detail])
+      );
+      const timedOut = now() >= this.retirement.deadline;
+      for (const id of await this.store.getOpenChannels()) {
+        const channel = await this.store.getChannel(id);
+        if (!channel) {
+          continue;
+        }
+        const { claimable, claimed, detail } =
+          await this.checkClaimable(channel);
+        if (claimed) {
+          confirmed.push(id);
+        } else if (!claimable) {
+          unclaimable.push({ id, detail });
+        } else if (timedOut) {
+          unclaimable.push({
+            id,
+            detail: [
+              `Not claimed within ${timeout}s.`,
+              detail ?? lastDetails.get(id),
+            ]
+              .filter(Boolean)
+              .join(" "),
+          });
+        } else {
+          claims.push({
+            channel,
+            reason: "retirement",
+            detail: "Provider is retiring.",
+          });
+        }
+      }
+      if (confirmed.length > 0) {
+        for (const id of confirmed) {
+          if (!(await this.store.getClaimRecord(id))) {
+            await this.store.recordClaim({
+              id,
+              reason: "retirement",
+              detail: "Claim confirmed on-chain.",
+              timestamp: now(),
+            });
+          }
+        }
+        await this.store.closeChannels(confirmed);
+        this.retirement.claimed.push(...confirmed);
+      }
+      this.retirement.remaining = claims.map(({ channel }) => channel.id);
+      this.retirement.unclaimable = unclaimable;
+      if (claims.length === 0) {
+        break;
+      }
+
+      const decisions = await this.closeChannels(claims);
+      const claimed = decisions
+        .filter((decision) => decision.outcome === "claimed")
+        .map((decision) => decision.id);
+      this.retirement.rounds++;
+      this.retirement.claimed.push(...claimed);
+      this.retirement.lastDecisions = decisions;
+      log().info(
+        {
+          round: this.retirement.rounds,
+          claimed: claimed.length,
+          attempted: claims.length,
+          unclaimable: unclaimable.length,
+        },
+        "Claimed open channels for retirement."
+      );
+      // If every claim went through, look again straight away in case channels were left
+      // behind. Otherwise give failures and pending claims time to clear.
+      if (claimed.length < claims.length) {
+        await sleep(retryInterval * 1000);
+      }
+    }
+
+    this.retirement.phase = "drained";
+    log().info(
+      {
+        claimed: this.retirement.claimed.length,
+        unclaimable: this.retirement.unclaimable,
+      },
+      "Drained, nothing claimable is left."
+    );
+    return this.getRetirementStatus();
+  }
+
+  /**
+   * Work out whether a channel's latest state can still be claimed.
+   * @returns Whether the channel can be claimed, or its ID was already used by a claim, and
+   * why not otherwise. Channels that can't be checked because the chain is unreachable are
+   * assumed claimable, with the error as detail.
+   */
+  private async checkClaimable(
+    channel: Channel
+  ): Promise<{ claimable: boolean; claimed?: boolean; detail?: string }> {
+    if (!this.isChainSupported(channel.chainId)) {
+      return { claimable: false, detail: "Chain is no longer supported." };
+    }
+    if (channel.state.expiry <= Math.floor(new Date().getTime() / 1000)) {
+      return {
+        claimable: false,
+        detail: `Expired at ${channel.state.expiry}.`,
+      };
+    }
+    try {
+      await this.assertClaimableOnChain({
+        id: channel.id,
+        chainId: channel.chainId,
+        scheme: channel.scheme ?? "packed",
+        asset: channel.asset,
+        amount: channel.state.amount,
+        expiry: channel.state.expiry,
+        signature: channel.state.signature,
+      });
+    } catch (e) {
+      if (e instanceof UpstreamChainError && e.code === "CHAIN_UNAVAILABLE") {
+        return { claimable: true, detail: e.message };
+      }
+      // Only a claim uses the ID, e.g. one journalled in an earlier round that confirmed since.
+      if (e instanceof ConflictError && e.code === "ID_ALREADY_USED") {
+        return { claimable: false, claimed: true };
+      }
+      return { claimable: false, detail: e.message };
+    }
+    return { claimable: true };
+  }
+
+  /**
+   * Pick the open channels that should be redeemed, either because their signed expiry is
+   * approaching, they were superseded by a newer channel, or they have been idle for too long.
+   */
+  private async selectRedeemableChannels(
+    withMinTime: number,
+    expiryMargin: number
+  ): Promise<ClaimRequest[]> {
+    await this.resolveUnverifiedChannels();
+    const channels: Channel[] = [];
+    for (const id of await this.store.getOpenChannels()) {
+      const channel = await this.store.getChannel(id);
+      if (channel) {
+        channels.push(channel);
+      }
+    }
+    const superseded = this.findSuperseded(channels);
+    const closingChannels: ClaimRequest[] = [];
+    const now = Math.floor(new Date().getTime() / 1000);
+    for (const channel of channels) {
+      // Expiring channels take priority, as they become unclaimable once expired.
+      const untilExpiry = channel.state.expiry - now;
+      if (untilExpiry <= expiryMargin) {
+        closingChannels.push({
+          channel,
+          reason: "expiry",
+          detail: `Expires in ${untilExpiry}s (margin: ${expiryMargin}s).`,
+        });
+        continue;
+      }
+      const newer = superseded.get(channel.id);
+      if (newer) {
+        closingChannels.push({
+          channel,
+          reason: "superseded",
+          detail: `Superseded by channel ${newer}.`,
+        });
+        continue;
+      }
+      // Check to see if we want to close out this channel based on how long it's lived.
+      const idle = now - channel.state.timestamp;
+      if (idle > withMinTime) {
+        closingChannels.push({
+          channel,
+          reason: "idle",
+          detail: `Idle for ${idle}s (ttl: ${withMinTime}s).`,
+        });
+      }
+    }
+    return closingChannels;
+  }
+
+  /**
+   * With the "replace" policy, find the open channels superseded by a newer one for the same
+   * subscriber, chain and asset. This is derived from the channels themselves, so it holds
+   * across restarts: the most recently updated channel of each account is the current one.
+   * @returns The ID of the current channel, keyed by the IDs of the channels it superseded.
+   */
+  private findSuperseded(channels: Channel[]): Map<string, string> {
+    const superseded: Map<string, string> = new Map();
+    if (this.config.channels.singleActive !== "replace") {
+      return superseded;
+    }
+    const accounts: Map<string, Channel[]> = new Map();
+    for (const channel of channels) {
+      const key = [channel.chainId, channel.sender, channel.asset]
+        .join(":")
+        .toLowerCase();
+      accounts.set(key, [...(accounts.get(key) ?? []), channel]);
+    }
+    for (const account of accounts.values()) {
+      // Order by last update, then ID, so the current channel is picked consistently.
+      const [current, ...previous] = account.sort(
+        (a, b) =>
+          b.state.timestamp - a.state.timestamp || b.id.localeCompare(a.id)
+      );
+      for (const channel of previous) {
+        superseded.set(channel.id, current.id);
+      }
+    }
+    return superseded;
+  }
+
+  /**
+   * Submit `claim()` calls for the given channels that are worth claiming, and close out the
+   * ones that succeeded. Channels that already expired can't be claimed any more, so they are
+   * closed out without a claim.
+   * @returns What was done with each channel, and why.
+   */
+  private async closeChannels(
+    claims: ClaimRequest[]
+  ): Promise<ClaimDecision[]> {
+    const attempted: string[] = [];
+    const claimed: string[] = [];
+    const expired: string[] = [];
+    const decisions: ClaimDecision[] = [];
+    const decide = (decision: ClaimDecision) => {
+      log().info(decision, "Claim decision.");
+      decisions.push(decision);
+    };
+    // Whatever happens, release the channels we attempted to claim.
+    try {
+      // TODO: Replace with batch close.
+      for (const { channel, reason, detail } of claims) {
+        // Skip channels that already have a claim being submitted, including ones left pending
+        // by a previous run.
+        if (
+          this.claimsInFlight.has(channel.id) ||
+          this.transactions.hasPending(channel.id)
+        ) {
+          decide({
+            id: channel.id,
+            reason,
+            outcome: "skipped",
+            detail: "A claim is already pending.",
+          });
+          continue;
+        }
+
+        // The contract refuses expired states, so claiming would only revert on every attempt.
+        const now = Math.floor(new Date().getTime() / 1000);
+        if (channel.state.expiry <= now) {
+          const detail = `Expired at ${channel.state.expiry} before it was claimed.`;
+          await this.store.recordClaim({
+            id: channel.id,
+            reason: "expired",
+            detail,
+            timestamp: now,
+          });
+          expired.push(channel.id);
+          decide({ id: channel.id, reason, outcome: "unclaimable", detail });
+          continue;
+        }
+
+        // Channels on chains dropped by a config reload can't be claimed until the chain is
+        // configured again, so leave them open.
+        if (!this.isChainSupported(channel.chainId)) {
+          decide({
+            id: channel.id,
+            reason,
+            outcome: "skipped",
+            detail: `Chain ${channel.chainId} is not configured.`,
+          });
+          continue;
+        }
+
+        // Claiming consumes the channel ID, so don't claim channels worth less than the gas
+        // unless they are about to become unclaimable.
+        const { profitable, ...assessment } = await this.assessClaim(channel);
+        if (!profitable && (reason === "idle" || reason === "superseded")) {
+          decide({
+            id: channel.id,
+            reason,
+            outcome: "deferred",
+            ...assessment,
+          });
+          continue;
+        }
+        if (!profitable) {
+          assessment.detail += ` Claiming anyway before funds are lost (${reason}).`;
+        }
+        this.claimsInFlight.add(channel.id);
+        attempted.push(channel.id);
+
+        // Attempt to redeem the channel on-chain.
+        const { functionName, args } = this.getClaimCall(channel);
+        let res = await this.submitTransaction(
+          channel.chainId,
+          this.config.chains[channel.chainId].contracts.Payments,
+          functionName,
+          args,
+          channel.id
+        );
+        const labels = {
+          chain: channel.chainId,
+          asset: channel.asset.toLowerCase(),
+          reason,
+        };
+        if (!res) {
+          claimsFailed.inc(labels);
+          decide({
+            id: channel.id,
+            reason,
+            outcome: "failed",
+            ...assessment,
+            detail: `Unable to close channel. ${assessment.detail}`,
+          });
+          continue;
+        }
+        await this.store.recordClaim({
+          id: channel.id,
+          reason,
+          detail,
+          timestamp: Math.floor(new Date().getTime() / 1000),
+        });
+        claimed.push(channel.id);
+        claimsSucceeded.inc(labels);
+        decide({ id: channel.id, reason, outcome: "claimed", ...assessment });
+      }
+
+      // Close out the claimed and expired channels in the store.
+      if (claimed.length + expired.length > 0) {
+        await this.store.closeChannels([...claimed, ...expired]);
+      }
+    } finally {
+      for (const id of attempted) {
+        this.claimsInFlight.delete(id);
+      }
+    }
+    return decisions;
+  }
+
+  /**
+   * Compare the worst case gas cost of claiming a channel against its value, priced through
+   * the chain's rate for the channel's asset.
+   */
+  private async assessClaim(channel: Channel): Promise<{
+    profitable: boolean;
+    detail: string;
+    cost?: string;
+    value?: string;
+  }> {
+    const chain = this.config.chains[channel.chainId];
+    if (!chain) {
+      return {
+        profitable: false,
+        detail: `Chain ${channel.chainId} is not configured.`,
+      };
+    }
+    const rate = Object.entries(chain.rates).find(
+      ([asset]) => asset.toLowerCase() === channel.asset.toLowerCase()
+    )?.[1];
+    if (rate === undefined) {
+      return {
+        profitable: true,
+        detail: "No rate configured for asset, claiming regardless of cost.",
+      };
+    }
+
+    const iface = new Interface(chain.contracts.Payments.abi);
+    const { functionName, args } = this.getClaimCall(channel);
+    let cost: bigint;
+    let value: bigint;
+    try {
+      cost = await this.transactions.estimateCost(
+        channel.chainId,
+        chain.contracts.Payments.address,
+        iface.encodeFunctionData(functionName, args)
+      );
+      // Rates are decimal, so scale them to 18 decimals of fixed point precision.
+      value =
+        (BigInt(channel.state.amount) * parseUnits(rate, 18)) /
+        parseUnits("1", 18);
+    } catch (e) {
+      // Let the claim itself surface the error.
+      return {
+        profitable: true,
+        detail: `Unable to assess claim cost: ${e.shortMessage ?? e.message}`,
+      };
+    }
+    const profitable = value > cost;
+    return {
+      profitable,
+      detail: profitable
+        ? "Channel value exceeds claim cost."
+        : "Claim cost exceeds channel value.",
+      cost: cost.toString(),
+      value: value.toString(),
+    };
+  }
+
+  /** Generate a random ID for a state channel session, reserved for the subscriber to open
+   * a channel with on the given chain until the reservation expires.
+   * @param chainId - ID of the chain to call `getRandomId` on.
+   * @param subscriber - The subscriber address
+   */
+  public async generateId(
+    chainId: string,
+    subscriber: string
+  ): Promise<string> {
+    this.assertNotRetired();
+    if (!this.isChainSupported(chainId)) {
+      throw new ValidationError("Chain is not supported.", "UNSUPPORTED_CHAIN");
+    }
+    await this.assertRegistered(chainId);
+    const id = await this.sendTransaction<string>(
+      chainId,
+      this.config.chains[chainId].contracts.Payments,
+      "getRandomId",
+      [subscriber, this.wallet.address, Math.floor(Math.random() * 100000 + 1)],
+      true
+    );
+    if (id === undefined) {
+      throw new UpstreamChainError(
+        "Unable to generate channel ID.",
+        "CHAIN_UNAVAILABLE"
+      );
+    }
+    await this.store.reserveId({
+      id,
+      chainId,
+      subscriber: getAddress(subscriber),
+      expiresAt:
+        Math.floor(new Date().getTime() / 1000) +
+        this.config.channels.reservationTtl,
+    });
+    return id;
+  }
+
+  /**
+   * Start purging expired channel ID reservations on a fixed interval.
+   * @param interval - Time in seconds between purges.
+   */
+  public startReservationSweeper(interval: number) {
+    this.stopReservationSweeper();
+    this.reservationSweeper = new Poller(
+      "reservation sweeper",
+      interval * 1000,
+      async () => {
+        const purged = await this.store.purgeReservations(
+          Math.floor(new Date().getTime() / 1000)
+        );
+        if (purged > 0) {
+          log().info({ purged }, "Purged expired channel ID reservations.");
+        }
+      }
+    );
+    this.reservationSweeper.start();
+  }
+
+  /**
+   * Stop purging expired channel ID reservations.
+   */
+  public stopReservationSweeper() {
+    this.reservationSweeper?.stop();
+    this.reservationSweeper = undefined;
+  }
+
+  /**
+   * Check that the provider wallet's key is registered in a chain's SemaphoreHSS. Looks only
+   * at the chain's `providerIndex` if set, otherwise scans every provider key.
+   * @param chainId - The chain to check.
+   * @returns The registration status, also kept for `getRegistrations`.
+   */
+  public async checkRegistration(chainId: string): Promise<Registration> {
+    if (!this.isChainSupported(chainId)) {
+      throw new ValidationError("Chain is not supported.", "UNSUPPORTED_CHAIN");
+    }
+    const { providerIndex } = this.config.chains[chainId];
+    const registration = await (async (): Promise<Registration> => {
+      const checkedAt = Math.floor(new Date().getTime() / 1000);
+      let indexes: number[];
+      if (providerIndex !== undefined) {
+        indexes = [providerIndex];
+      } else {
+        const next = await this.sendTransaction<bigint>(
+          chainId,
+          this.config.chains[chainId].contracts.SemaphoreHSS,
+          "nextProviderId",
+          [],
+          true,
+          true
+        );
+        if (next === undefined) {
+          return {
+            status: "unknown",
+            checkedAt,
+            detail: "Unable to read the number of providers from SemaphoreHSS.",
+          };
+        }
+        indexes = Array.from({ length: Number(next) }, (_, i) => i);
+      }
+      for (const index of indexes) {
+        const key = await this.sendTransaction<string>(
+          chainId,
+          this.config.chains[chainId].contracts.SemaphoreHSS,
+          "getProviderKey",
+          [index],
+          true,
+          true
+        );
+        if (key === undefined) {
+          return {
+            status: "unknown",
+            checkedAt,
+            detail: `Unable to read provider key ${index} from SemaphoreHSS.`,
+          };
+        }
+        let owner: string | undefined;
+        try {
+          owner = computeAddress(key);
+        } catch (e) {
+          owner = undefined;
+        }
+        if (owner === this.wallet.address) {
+          return {
+            status: "registered",
+            providerIndex: index,
+            checkedAt,
+            detail: `Provider key registered at index ${index}.`,
+          };
+        }
+        if (providerIndex !== undefined) {
+          return {
+            status: owner ? "mismatch" : "unregistered",
+            checkedAt,
+            detail: owner
+              ? `The key at provider index ${index} belongs to ${owner}, not the provider ` +
+                `wallet ${this.wallet.address}. Check providerIndex in the chain config.`
+              : `No key is registered at provider index ${index}.`,
+          };
+        }
+      }
+      return {
+        status: "unregistered",
+        checkedAt,
+        detail:
+          `No provider key in SemaphoreHSS matches the provider wallet ` +
+          `${this.wallet.address}. An operator must register it with addProviderAndKey.`,
+      };
+    })();
+    this.registrations.set(chainId, registration);
+    if (registration.status === "registered") {
+      log().info({ chainId, registration }, "Provider is registered.");
+    } else {
+      log().warn(
+        { chainId, registration },
+        "Provider is not registered in SemaphoreHSS."
+      );
+    }
+    return registration;
+  }
+
+  /**
+   * Check the provider's registration on every supported chain.
+   * @returns The registration statuses, keyed by chain ID.
+   */
+  public async checkRegistrations(): Promise<{
+    [chainId: string]: Registration;
+  }> {
+    const registrations: { [chainId: string]: Registration } = {};
+    for (const chainId of Object.keys(this.config.chains)) {
+      registrations[chainId] = await this.checkRegistration(chainId);
+    }
+    return registrations;
+  }
+
+  /**
+   * Get the provider's registration on each chain, as of the last check. Chains not checked
+   * since startup or the last reconfiguration are left out.
+   */
+  public getRegistrations(): { [chainId: string]: Registration } {
+    return Object.fromEntries(this.registrations);
+  }
+
+  /**
+   * Prepare the `addProviderAndKey` call registering the provider wallet's key in a chain's
+   * SemaphoreHSS, and optionally submit it. Only wallets holding OPERATOR_ROLE can submit it;
+   * otherwise an operator has to send the prepared call.
+   * @param chainId - The chain to register on.
+   * @param submit - Whether to submit the call from the provider wallet.
+   * @returns The prepared call, whether it could be submitted, and the registration status
+   * afterwards.
+   */
+  public async prepareRegistration(
+    chainId: string,
+    submit: boolean
+  ): Promise<RegistrationRequest> {
+    let registration = await this.checkRegistration(chainId);
+    const contract = this.config.chains[chainId].contracts.SemaphoreHSS;
+    const publicKey = this.wallet.signingKey.publicKey;
+    const transaction = {
+      to: contract.address,
+      data: new Interface(contract.abi).encodeFunctionData(
+        "addProviderAndKey",
+        [this.wallet.address, publicKey]
+      ),
+    };
+    const role = await this.sendTransaction<string>(
+      chainId,
+      contract,
+      "OPERATOR_ROLE",
+      [],
+      true
+    );
+    const hasOperatorRole =
+      role !== undefined &&
+      (await this.sendTransaction<boolean>(
+        chainId,
+        contract,
+        "hasRole",
+        [role, this.wallet.address],
+        true
+      )) === true;
+    const request = {
+      chainId,
+      transaction,
+      publicKey,
+      hasOperatorRole,
+      registration,
+    };
+    if (!submit) {
+      return request;
+    }
+
+    if (registration.status === "registered") {
+      throw new ConflictError(
+        "Provider is already registered.",
+        "ALREADY_REGISTERED",
+        request
+      );
+    }
+    if (!hasOperatorRole) {
+      throw new ForbiddenError(
+        "Provider wallet doesn't hold OPERATOR_ROLE. Have an operator send the prepared " +
+          "transaction instead.",
+        "NOT_OPERATOR",
+        request
+      );
+    }
+    const receipt = await this.submitTransaction(
+      chainId,
+      contract,
+      "addProviderAndKey",
+      [this.wallet.address, publicKey],
+      "registration"
+    );
+    if (!receipt) {
+      throw new UpstreamChainError(
+        "Unable to register the provider.",
+        "CHAIN_UNAVAILABLE",
+        request
+      );
+    }
+    registration = await this.checkRegistration(chainId);
+    return { ...request, hash: receipt.hash, registration };
+  }
+
+  /**
+   * Retrieve the public key a subscriber registered in SemaphoreHSS.
+   * @param chainId - The chain where SemaphoreHSS lives.
+   * @param index - The subscriber's index in SemaphoreHSS.
+   * @returns The public key, as hex. Empty ("0x") if none is registered at the index.
+   */
+  public async getSubscriberKey(
+    chainId: string,
+    index: number
+  ): Promise<string> {
+    if (!this.isChainSupported(chainId)) {
+      throw new ValidationError("Chain is not supported.", "UNSUPPORTED_CHAIN");
+    }
+    const key = await this.sendTransaction<string>(
+      chainId,
+      this.config.chains[chainId].contracts.SemaphoreHSS,
+      "getSubscriberKey",
+      [index],
+      true,
+      true
+    );
+    if (key === undefined) {
+      throw new UpstreamChainError(
+        "Unable to retrieve subscriber key.",
+        "CHAIN_UNAVAILABLE"
+      );
+    }
+    return key;
+  }
+
+  /**
+   * The provider wallet address, which subscribers sign channel states for.
+   */
+  public getAddress(): string {
+    return this.wallet.address;
+  }
+
+  /**
+   * Retrieve the subscriber's escrow balance for an asset, as well as any pending withdrawal
+   * request and how long until those funds may leave the Payments contract.
+   *
+   * @param chainId - The chain where the Payments contract lives.
+   * @param subscriber - The subscriber address.
+   * @param asset - The asset held in escrow.
+   */
+  public async getEscrowStatus(
+    chainId: string,
+    subscriber: string,
+    asset: string
+  ): Promise<EscrowStatus> {
+    const contract = this.config.chains[chainId].contracts.Payments;
+    const balance = await this.sendTransaction<bigint>(
+      chainId,
+      contract,
+      // `checkBalance` is overloaded, so we need the full signature here.
+      "checkBalance(address,address)",
+      [subscriber, asset],
+      true,
+      true
+    );
+    if (balance === undefined) {
+      throw new UpstreamChainError(
+        "Unable to retrieve escrow balance.",
+        "CHAIN_UNAVAILABLE"
+      );
+    }
+    return {
+      balance: balance.toString(),
+      withdrawal: await this.getWithdrawalRequest(chainId, subscriber, asset),
+    };
+  }
+
+  /**
+   * Retrieve the subscriber's pending withdrawal request for an asset, if any.
+   *
+   * @param chainId - The chain where the Payments contract lives.
+   * @param subscriber - The subscriber address.
+   * @param asset - The asset held in escrow.
+   * @returns The withdrawal request, or undefined if none is pending.
+   */
+  public async getWithdrawalRequest(
+    chainId: string,
+    subscriber: string,
+    asset: string
+  ): Promise<EscrowStatus["withdrawal"]> {
+    const contract = this.config.chains[chainId].contracts.Payments;
+    const requestedAt = await this.sendTransaction<bigint>(
+      chainId,
+      contract,
+      "checkWithdrawalRequest",
+      [subscriber, asset],
+      true
+    );
+    if (requestedAt === undefined) {
+      throw new UpstreamChainError(
+        "Unable to retrieve withdrawal request.",
+        "CHAIN_UNAVAILABLE"
+      );
+    }
+    if (requestedAt === BigInt(0)) {
+      return undefined;
+    }
+    const waitPeriod = await this.sendTransaction<bigint>(
+      chainId,
+      contract,
+      "withdrawalWaitPeriod",
+      [],
+      true
+    );
+    if (waitPeriod === undefined) {
+      throw new UpstreamChainError(
+        "Unable to retrieve withdrawal wait period.",
+        "CHAIN_UNAVAILABLE"
+      );
+    }
+    const unlocksAt = Number(requestedAt + waitPeriod);
+    return {
+      requestedAt: Number(requestedAt),
+      unlocksAt,
+      remaining: Math.max(
+        0,
+        unlocksAt - Math.floor(new Date().getTime() / 1000)
+      ),
+    };
+  }
+
+  private async toChannelView(
+    channel: Channel,
+    isOpen: boolean,
+    admin: boolean
+  ): Promise<ChannelView> {
+    const { state, ...header } = channel;
+    if (!admin) {
+      const { signature, ...publicState } = state;
+      return {
+        ...header,
+        status: isOpen ? "open" : "closed",
+        state: publicState,
+      };
+    }
+    return {
+      ...header,
+      status: isOpen ? "open" : "closed",
+      state,
+      claim: await this.store.getClaimRecord(channel.id),
+    };
+  }
+
+  private buildConfig(
+    chains: { [chainId: string]: ChainParams },
+    channels?: Partial<ChannelSettings>,
+    transactions?: Partial<FeePolicy>
+  ): ChannelManagerConfig {
+    const config: ChannelManagerConfig = {
+      chains: {},
+      channels: {
+        expiryTolerance: channels?.expiryTolerance ?? 60 * 60 * 48, // Default is 2 days minimum.
+        singleActive: channels?.singleActive ?? "replace",
+        reservationTtl: channels?.reservationTtl ?? 10 * 60,
+        requireRegistration: channels?.requireRegistration ?? true,
+      },
+      transactions: {
+        maxFeePerGas: 100,
+        maxPriorityFeePerGas: 2,
+        bumpPercent: 15,
+        stuckAfter: 3 * 60,
+        maxPending: 30 * 60,
+        confirmations: 1,
+        pollInterval: 5,
+        ...transactions,
+      },
+    };
+    for (const chain of Object.keys(chains)) {
+      const pool = new ProviderPool(chain, chains[chain].providers, {
+        probeInterval: 30,
+        probeTimeout: 5,
+        maxBlockLag: 5,
+        quorum: 1,
+        ...chains[chain].pool,
+      });
+      pool.start();
+      config.chains[chain] = {
+        pool,
+        assets: chains[chain].assets,
+        contracts: chains[chain].contracts,
+        expiryTolerance:
+          chains[chain].expiryTolerance ?? config.channels.expiryTolerance,
+        providerIndex: chains[chain].providerIndex,
+        transactions: {
+          ...config.transactions,
+          ...chains[chain].transactions,
+        },
+        rates: chains[chain].rates ?? {},
+        eip712: chains[chain].eip712,
+        prices: chains[chain].prices ?? {},
+      };
+    }
+    return config;
+  }
+
+  /**
+   * Whether channels may be opened on the given chain.
+   * @param chainId - The chain ID.
+   */
+  public isChainSupported(chainId: string): boolean {
+    return Object.keys(this.config.chains).includes(chainId);
+  }
+
+  private isAssetSupported(chainId: string, asset: string): boolean {
+    return this.config.chains[chainId].assets.some(
+      (assetAddress) => assetAddress.toLowerCase() === asset.toLowerCase()
+    );
+  }
+
+  /**
+   * Make sure a channel ID was reserved through `generateId` for the given subscriber and
+   * chain, that the reservation hasn't expired, and that the ID was never used on-chain.
+   */
+  private async assertReservedId(
+    id: string,
+    chainId: string,
+    subscriber: string
+  ) {
+    const reservation = await this.store.getReservation(id);
+    if (
+      !reservation ||
+      reservation.expiresAt < Math.floor(new Date().getTime() / 1000)
+    ) {
+      throw new ValidationError(
+        "Channel ID is not reserved or its reservation has expired. Request a new ID.",
+        "ID_NOT_RESERVED"
+      );
+    }
+    if (
+      reservation.chainId !== chainId ||
+      reservation.subscriber.toLowerCase() !== subscriber.toLowerCase()
+    ) {
+      throw new ValidationError(
+        "Channel ID was reserved for a different subscriber or chain.",
+        "ID_NOT_RESERVED"
+      );
+    }
+    const used = await this.sendTransaction<boolean>(
+      chainId,
+      this.config.chains[chainId].contracts.Payments,
+      "isIdUsed",
+      [subscriber, id],
+      true,
+      true
+    );
+    if (used === undefined) {
+      throw new UpstreamChainError(
+        "Unable to check whether the channel ID was used.",
+        "CHAIN_UNAVAILABLE"
+      );
+    }
+    if (used) {
+      throw new ConflictError(
+        "Channel ID has already been used on-chain.",
+        "ID_ALREADY_USED"
+      );
+    }
+  }
+
+  private assertNotRetired() {
+    if (this.isRetired) {
+      throw new UnavailableError(
+        "Provider is no longer accepting incoming connections.",
+        "RETIRED"
+      );
+    }
+  }
+
+  private async assertRegistered(chainId: string) {
+    if (!this.config.channels.requireRegistration) {
+      return;
+    }
+    let registration = this.registrations.get(chainId);
+    if (!registration || registration.status === "unknown") {
+      registration = await this.checkRegistration(chainId);
+    }
+    if (registration.status !== "registered") {
+      throw new UnavailableError(
+        `Provider is not registered in SemaphoreHSS on this chain, so channels can't be ` +
+          `claimed here. ${registration.detail}`,
+        "PROVIDER_NOT_REGISTERED",
+        registration
+      );
+    }
+  }
+
+  private assertAcceptingUpdates() {
+    if (this.isRetired && this.retirement.phase !== "grace") {
+      throw new UnavailableError(
+        "Provider is retiring and no longer accepting channel updates.",
+        "RETIRED"
+      );
+    }
+  }
+
+  private assertValidExpiry(chainId: string, expiry: number) {
+    // Check to ensure the expiry is valid.
+    if (
+      expiry - Math.floor(new Date().getTime() / 1000) <
+      this.config.chains[chainId].expiryTolerance
+    ) {
+      throw new ValidationError(
+        "Time til expiry is insufficient.",
+        "EXPIRY_TOO_SOON"
+      );
+    }
+  }
+
+  private async checkIfSubscriber(
+    chainId: string,
+    subscriber: string
+  ): Promise<boolean> {
+    const contract = this.config.chains[chainId].contracts.SemaphoreHSS;
+    const result = await this.sendTransaction<boolean>(
+      chainId,
+      contract,
+      "isSubscriber",
+      [subscriber],
+      true,
+      true
+    );
+    return result;
+  }
+
+  /**
+   * Make sure the signed amount is covered by the subscriber's escrow balance, less what their
+   * other open channels for the same chain and asset already pledge. Nothing is available while
+   * a withdrawal is pending, as the whole balance leaves escrow once it unlocks.
+   * @param id - The channel the amount is for, left out of the pledged total.
+   * @returns The escrow status, so callers can report any pending withdrawal.
+   */
+  private async assertSufficientEscrow(
+    id: string,
+    chainId: string,
+    subscriber: string,
+    asset: string,
+    amount: string
+  ): Promise<EscrowStatus> {
+    const escrow = await this.getEscrowStatus(chainId, subscriber, asset);
+    if (escrow.withdrawal) {
+      throw new PaymentError(
+        `Subscriber has a pending withdrawal; their escrow may leave at ` +
+          `${escrow.withdrawal.unlocksAt}.`,
+        "WITHDRAWAL_PENDING",
+        { amount, balance: escrow.balance, withdrawal: escrow.withdrawal }
+      );
+    }
+    let pledged = BigInt(0);
+    for (const other of await this.store.findChannels({
+      status: "open",
+      chainId,
+      asset,
+      sender: subscriber,
+    })) {
+      if (other === id) {
+        continue;
+      }
+      const channel = await this.store.getChannel(other);
+      pledged += BigInt(channel?.state.amount ?? 0);
+    }
+    const available = BigInt(escrow.balance) - pledged;
+    if (BigInt(amount) > available) {
+      throw new PaymentError(
+        `Amount (${amount}) exceeds the subscriber's available escrow balance ` +
+          `(${available > 0 ? available : 0} of ${escrow.balance}, the rest is pledged to ` +
+          `other open channels).`,
+        "INSUFFICIENT_ESCROW",
+        { amount, balance: escrow.balance, pledged: pledged.toString() }
+      );
+    }
+    return escrow;
+  }
+
+  // Amounts are in base units, so they must be decimal integers that fit a uint256.
+  private assertValidAmount(amount: string) {
+    if (
+      typeof amount !== "string" ||
+      !/^[0-9]+$/.test(amount) ||
+      BigInt(amount) > MaxUint256
+    ) {
+      throw new ValidationError(
+        "Amount must be a non-negative integer in base units.",
+        "INVALID_AMOUNT"
+      );
+    }
+  }
+
+  private assertAmountIncreased(previous: string, amount: string) {
+    if (BigInt(amount) <= BigInt(previous)) {
+      throw new ValidationError(
+        `Amount must be greater than the previous amount (${previous}).`,
+        "AMOUNT_NOT_INCREASED",
+        { previous }
+      );
+    }
+  }
+
+  /**
+   * Recover the signer of the (id, provider, asset, amount, expiry) state locally, under the
+   * channel's signature scheme, and make sure it matches the expected sender. No RPC calls are
+   * made.
+   */
+  private assertValidSignature({
+    id,
+    chainId,
+    scheme,
+    sender,
+    asset,
+    amount,
+    expiry,
+    signature,
+  }: {
+    id: string;
+    chainId: string;
+    scheme: SignatureScheme;
+    sender: string;
+    asset: string;
+    amount: string;
+    expiry: number;
+    signature?: string;
+  }) {
+    if (!signature) {
+      throw new ValidationError("Signature not specified.");
+    }
+    let signer: string;
+    try {
+      const digest = getStateDigest(
+        scheme,
+        { id, provider: this.wallet.address, asset, amount, expiry },
+        this.getTypedDataDomain(chainId)
+      );
+      signer = recoverAddress(digest, signature);
+    } catch (e) {
+      throw new ValidationError("Invalid signature.", "INVALID_SIGNATURE");
+    }
+    if (getAddress(signer) !== getAddress(sender)) {
+      throw new ValidationError("Invalid signature.", "INVALID_SIGNATURE");
+    }
+  }
+
+  private getPrice(channel: Channel): Price | undefined {
+    const prices = this.config.chains[channel.chainId]?.prices ?? {};
+    return Object.entries(prices).find(
+      ([asset]) => asset.toLowerCase() === channel.asset.toLowerCase()
+    )?.[1];
+  }
+
+  private getTypedDataDomain(chainId: string): TypedDataDomain | undefined {
+    const chain = this.config.chains[chainId];
+    if (!chain.eip712) {
+      return undefined;
+    }
+    return getTypedDataDomain(
+      chainId,
+      chain.contracts.Payments.address,
+      chain.eip712
+    );
+  }
+
+  /**
+   * Build the Payments call that claims a channel state, which depends on how it was signed.
+   */
+  private getClaimCall({
+    id,
+    chainId,
+    scheme,
+    asset,
+    state,
+  }: Pick<Channel, "id" | "chainId" | "scheme" | "asset"> & {
+    state: Pick<ChannelState, "amount" | "expiry" | "signature">;
+  }): { functionName: string; args: any[] } {
+    if (!this.isChainSupported(chainId)) {
+      throw new ValidationError("Chain is not supported.", "UNSUPPORTED_CHAIN");
+    }
+    const args = [id, asset, state.amount, state.expiry, state.signature];
+    if (scheme === "eip712") {
+      const eip712 = this.config.chains[chainId].eip712;
+      if (!eip712) {
+        throw new ValidationError(
+          "Chain does not support EIP-712 signatures.",
+          "UNSUPPORTED_SCHEME"
+        );
+      }
+      return { functionName: eip712.claimFunction, args };
+    }
+    return { functionName: "claim", args };
+  }
+
+  /**
+   * Simulate the claim for the given state, making sure on-chain conditions (balance, expiry,
+   * ID usage, etc.) would currently allow the provider to redeem it.
+   */
+  private async assertClaimableOnChain({
+    id,
+    chainId,
+    scheme,
+    asset,
+    amount,
+    expiry,
+    signature,
+  }: {
     id: string;
     chainId: string;
+    scheme: SignatureScheme;
     asset: string;
     amount: string;
     expiry: number;
     signature: string;
   }) {
-    const success = await this.estimateGas(
+    const { functionName, args } = this.getClaimCall({
+      id,
+      chainId,
+      scheme,
+      asset,
+      state: { amount, expiry, signature },
+    });
+    const error = await this.estimateGas(
       chainId,
       this.config.chains[chainId].contracts.Payments,
-      "claim",
-      [id, asset, amount, expiry, signature]
+      functionName,
+      args
     );
-    if (!success) {
-      throw new Error("Invalid signature.");
+    if (error) {
+      throw fromOnChainError(error, "Channel state is not claimable on-chain.");
     }
   }
 
+  // Resolves to undefined if gas could be estimated on any provider, otherwise to the first
+  // provider's error, decoded where possible.
   private async estimateGas(
     chainId: string,
     contract: ContractInfo,
     functionName: string,
     args: any[]
-  ): Promise<boolean> {
+  ): Promise<any> {
     // Derive encoded calldata.
     const iface = new Interface(contract.abi as any[]);
     const data = iface.encodeFunctionData(functionName, args);
@@ -370,28 +2444,70 @@ export class ProviderNode {
     };
 
     const errors: any[] = [];
-    for (const provider of this.config[chainId].providers) {
+    for (const provider of this.config.chains[chainId].pool.getProviders()) {
       try {
-        // Connect the wallet to the target RPC provider.
-        this.wallet.connect(provider);
-        // Estimate gas.
-        const res = await this.wallet.estimateGas(tx);
-        return true;
+        // Estimate gas using the wallet connected to the target RPC provider.
+        await this.wallet.connect(provider).estimateGas(tx);
+        return undefined;
       } catch (e) {
-        errors.push(this.parseOnChainError(iface, e));
+        const error = this.parseOnChainError(iface, e);
+        this.recordChainError(chainId, functionName, args, error, provider);
+        errors.push(error);
       }
     }
-    return false;
+    return errors[0] ?? new Error("No RPC endpoints available.");
   }
 
-  // Will iterate through all available providers for a given chain until one works.
+  // Sends a transaction through the transaction manager and waits for it to be confirmed.
+  private async submitTransaction(
+    chainId: string,
+    contract: ContractInfo,
+    functionName: string,
+    args: any[],
+    ref?: string
+  ): Promise<TransactionReceipt | undefined> {
+    // Derive encoded calldata.
+    const iface = new Interface(contract.abi as any[]);
+    const data = iface.encodeFunctionData(functionName, args);
+
+    try {
+      return await this.transactions.submit(
+        chainId,
+        contract.address,
+        data,
+        ref
+      );
+    } catch (e) {
+      this.recordChainError(
+        chainId,
+        functionName,
+        args,
+        this.parseOnChainError(iface, e)
+      );
+      return undefined;
+    }
+  }
+
+  // Will iterate through all available providers for a given chain until one works, fastest
+  // first. Quorum reads are instead checked against every provider in rotation. Writes are
+  // handed to the transaction manager.
   private async sendTransaction<T>(
     chainId: string,
     contract: ContractInfo,
     functionName: string,
     args: any[],
-    read?: boolean
+    read?: boolean,
+    quorum?: boolean
   ): Promise<T | undefined> {
+    if (!read) {
+      return (await this.submitTransaction(
+        chainId,
+        contract,
+        functionName,
+        args
+      )) as T;
+    }
+
     // Derive encoded calldata.
     const iface = new Interface(contract.abi as any[]);
     const data = iface.encodeFunctionData(functionName, args);
@@ -402,31 +2518,95 @@ export class ProviderNode {
       chainId: +chainId,
     };
 
+    const pool = this.config.chains[chainId].pool;
     const errors: any[] = [];
-    for (const provider of this.config[chainId].providers) {
+    if (read && quorum) {
+      // Endpoint failures are recorded as they happen, leaving quorum failures.
+      const failed: Set<any> = new Set();
       try {
-        if (read) {
-          const res: TransactionResponse = await (
-            provider as typeof JsonRpcProvider
-          ).call(tx);
-          return res as T;
-        } else {
-          // Connect the wallet to the target RPC provider.
-          this.wallet.connect(provider);
-          // Send transaction.
-          const res = await this.wallet.sendTransaction(tx);
-          return (await res.wait()) as T;
-        }
+        const res = await pool.quorumCall(tx, (provider, e) => {
+          failed.add(e);
+          this.recordChainError(
+            chainId,
+            functionName,
+            args,
+            this.parseOnChainError(iface, e),
+            provider
+          );
+        });
+        // Decode the return data, unwrapping single return values.
+        const result = iface.decodeFunctionResult(functionName, res);
+        return (result.length === 1 ? result[0] : result) as T;
       } catch (e) {
-        errors.push(this.parseOnChainError(iface, e));
+        const error = this.parseOnChainError(iface, e);
+        if (!failed.has(e)) {
+          this.recordChainError(chainId, functionName, args, error);
+        }
+        errors.push(error);
+      }
+    } else {
+      for (const provider of pool.getProviders()) {
+        try {
+          const res = await provider.call(tx);
+          // Decode the return data, unwrapping single return values.
+          const result = iface.decodeFunctionResult(functionName, res);
+          return (result.length === 1 ? result[0] : result) as T;
+        } catch (e) {
+          const error = this.parseOnChainError(iface, e);
+          this.recordChainError(chainId, functionName, args, error, provider);
+          errors.push(error);
+        }
       }
     }
 
-    // TODO: Should we store these errors anywhere?
-    console.log("Error:", functionName, args, errors[0]);
+    log().error(
+      { chainId, method: functionName },
+      "Chain call failed on every RPC endpoint."
+    );
     return undefined;
   }
 
+  /**
+   * Log a failed chain call and keep it in the recent chain errors.
+   * @param error - The decoded custom error, or the raw error.
+   * @param provider - The endpoint that failed, if the failure was tied to one.
+   */
+  private recordChainError(
+    chainId: string,
+    method: string,
+    args: any[],
+    error: any,
+    provider?: InstrumentedProvider
+  ) {
+    const entry: ChainError = {
+      timestamp: Math.floor(new Date().getTime() / 1000),
+      chainId,
+      endpoint: provider?.endpoint,
+      method,
+      // Args may hold bigints, which don't serialize to JSON.
+      args: JSON.parse(
+        JSON.stringify(args, (_, value) =>
+          typeof value === "bigint" ? value.toString() : value
+        )
+      ),
+      error:
+        error?.name && error?.signature
+          ? {
+              name: error.name,
+              signature: error.signature,
+              args: Array.from(error.args ?? [], String),
+            }
+          : {
+              name: error?.name,
+              code: error?.code,
+              message: error?.shortMessage ?? error?.message ?? String(error),
+            },
+      requestId: getRequestId(),
+    };
+    this.chainErrors.push(entry);
+    log().warn(entry, "Chain call failed.");
+  }
+
   private parseOnChainError(iface: Interface, e: any): any {
     let error: any;
     if (e.data) {
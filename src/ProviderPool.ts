@@ -0,0 +1,234 @@
+import { JsonRpcProvider, TransactionRequest } from "ethers";
+import { InstrumentedProvider } from "./metrics.ts";
+import { Poller } from "./Poller.ts";
+import { log } from "./logging.ts";
+
+// Settings for the RPC provider pool of a chain.
+export type PoolParams = {
+  // Time between health probes (in seconds).
+  probeInterval: number;
+  // Time after which a probe is considered failed (in seconds).
+  probeTimeout: number;
+  // Maximum number of blocks an endpoint may lag behind the highest one seen before it is
+  // taken out of rotation.
+  maxBlockLag: number;
+  // Number of endpoints that must return the same result for quorum reads.
+  quorum: number;
+};
+
+// Health of a single RPC endpoint, as of the last probe.
+export type EndpointStatus = {
+  url: string;
+  // Whether the endpoint is in rotation.
+  healthy: boolean;
+  // Round trip time of the last successful probe (in ms).
+  latency?: number;
+  // Block height reported by the last successful probe.
+  blockNumber?: number;
+  // Error from the last failed probe.
+  error?: string;
+  // Time of the last probe (in seconds).
+  probedAt?: number;
+};
+
+type Endpoint = EndpointStatus & {
+  provider: InstrumentedProvider;
+};
+
+/**
+ * A pool of RPC endpoints for a single chain. Endpoints are probed in the background for block
+ * height and latency; ones that error out or lag behind are taken out of rotation, and the
+ * rest are ranked fastest first.
+ */
+export class ProviderPool {
+  private readonly chainId: string;
+  private readonly params: PoolParams;
+  private readonly endpoints: Endpoint[];
+  private readonly poller: Poller;
+
+  constructor(chainId: string, urls: string[], params: PoolParams) {
+    this.chainId = chainId;
+    this.params = params;
+    // Endpoints are considered healthy until a probe says otherwise.
+    this.endpoints = urls.map((url) => ({
+      url,
+      // The chain ID is known up front, so skip network detection (and its retry loop).
+      provider: new InstrumentedProvider(url, parseInt(chainId), {
+        staticNetwork: true,
+      }),
+      healthy: true,
+    }));
+    this.poller = new Poller(
+      `provider pool (chain ${chainId})`,
+      params.probeInterval * 1000,
+      () => this.probe()
+    );
+  }
+
+  /**
+   * Start probing endpoints in the background. The first probe runs immediately.
+   */
+  public start() {
+    this.poller.start();
+    this.poller.runOnce();
+  }
+
+  /**
+   * Stop probing endpoints and tear down their connections.
+   */
+  public stop() {
+    this.poller.stop();
+    for (const endpoint of this.endpoints) {
+      endpoint.provider.destroy();
+    }
+  }
+
+  /**
+   * Get the providers currently in rotation, fastest first. If every endpoint is out of
+   * rotation, all of them are returned as a last resort.
+   */
+  public getProviders(): InstrumentedProvider[] {
+    const healthy = this.endpoints.filter((endpoint) => endpoint.healthy);
+    const candidates = healthy.length > 0 ? healthy : this.endpoints;
+    return [...candidates]
+      .sort(
+        (a, b) =>
+          (a.latency ?? Number.MAX_SAFE_INTEGER) -
+          (b.latency ?? Number.MAX_SAFE_INTEGER)
+      )
+      .map((endpoint) => endpoint.provider);
+  }
+
+  /**
+   * Get the health of every endpoint in the pool.
+   */
+  public getStatus(): EndpointStatus[] {
+    return this.endpoints.map(({ provider, ...status }) => status);
+  }
+
+  /**
+   * Perform an `eth_call` against every endpoint in rotation, returning the result once at
+   * least `quorum` endpoints agree on it.
+   *
+   * @param tx - The call to perform.
+   * @param onError - Called with each endpoint that fails the call, and its error.
+   * @returns The agreed upon return data.
+   */
+  public async quorumCall(
+    tx: TransactionRequest,
+    onError?: (provider: InstrumentedProvider, e: any) => void
+  ): Promise<string> {
+    const providers = this.getProviders();
+    if (this.params.quorum <= 1) {
+      // No agreement needed, so just take the first endpoint that answers.
+      let error: any;
+      for (const provider of providers) {
+        try {
+          return await provider.call(tx);
+        } catch (e) {
+          onError?.(provider, e);
+          error = e;
+        }
+      }
+      throw error;
+    }
+    if (providers.length < this.params.quorum) {
+      throw new Error(
+        `Not enough RPC endpoints in rotation for chain ${this.chainId} to reach quorum ` +
+          `(${providers.length}/${this.params.quorum}).`
+      );
+    }
+    const results = await Promise.allSettled(
+      providers.map((provider) =>
+        provider.call(tx).catch((e) => {
+          onError?.(provider, e);
+          throw e;
+        })
+      )
+    );
+    const votes: Map<string, number> = new Map();
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        votes.set(result.value, (votes.get(result.value) ?? 0) + 1);
+      }
+    }
+    for (const [value, count] of votes) {
+      if (count >= this.params.quorum) {
+        return value;
+      }
+    }
+    const rejected = results.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+    if (votes.size === 0 && rejected) {
+      throw rejected.reason;
+    }
+    throw new Error(
+      `RPC endpoints for chain ${this.chainId} did not reach quorum ` +
+        `(${this.params.quorum}) on call result.`
+    );
+  }
+
+  /**
+   * Probe every endpoint for its block height and latency, then update which endpoints are
+   * in rotation.
+   */
+  private async probe() {
+    const probedAt = Math.floor(new Date().getTime() / 1000);
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        const start = new Date().getTime();
+        try {
+          endpoint.blockNumber = await this.withTimeout(
+            endpoint.provider.getBlockNumber()
+          );
+          endpoint.latency = new Date().getTime() - start;
+          endpoint.error = undefined;
+        } catch (e) {
+          endpoint.blockNumber = undefined;
+          endpoint.latency = undefined;
+          endpoint.error = e.message ?? String(e);
+        }
+        endpoint.probedAt = probedAt;
+      })
+    );
+
+    const highest = Math.max(
+      ...this.endpoints.map((endpoint) => endpoint.blockNumber ?? 0)
+    );
+    for (const endpoint of this.endpoints) {
+      const healthy =
+        endpoint.blockNumber !== undefined &&
+        highest - endpoint.blockNumber <= this.params.maxBlockLag;
+      if (endpoint.healthy && !healthy) {
+        log().warn(
+          {
+            chainId: this.chainId,
+            endpoint: endpoint.url,
+            reason:
+              endpoint.error ??
+              `${highest - endpoint.blockNumber} blocks behind`,
+          },
+          "Taking RPC endpoint out of rotation."
+        );
+      } else if (!endpoint.healthy && healthy) {
+        log().info(
+          { chainId: this.chainId, endpoint: endpoint.url },
+          "Returning RPC endpoint to rotation."
+        );
+      }
+      endpoint.healthy = healthy;
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error("Probe timed out.")),
+        this.params.probeTimeout * 1000
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,409 @@
+import Database from "better-sqlite3";
+import { ConflictError, NotFoundError } from "./errors.ts";
+import {
+  applyRetention,
+  Channel,
+  ChannelFilter,
+  ChannelList,
+  ChannelState,
+  ChannelStore,
+  ClaimRecord,
+  HistoryRetention,
+  InsertChannelParams,
+  Reservation,
+  UpdateChannelParams,
+  Usage,
+} from "./ChannelStore.ts";
+
+// Params for constructing the SQLite store.
+export type SqliteStoreParams = {
+  // Path to the database file. Use ":memory:" for a throwaway database.
+  path: string;
+  retention?: HistoryRetention;
+};
+
+/**
+ * SQLite Store Details:
+ * channels:
+ *   One row per channel. `data` holds JSON.stringify(Channel); the other columns are kept
+ *   alongside it for lookups. Addresses are lowercased in the `sender` and `asset` columns.
+ *
+ * channel_history:
+ *   One row per accepted state, keyed by (channel_id, iteration).
+ *
+ * claims:
+ *   One row per claimed channel, holding JSON.stringify(ClaimRecord).
+ *
+ * usage:
+ *   One row per metered channel, holding its usage totals.
+ *
+ * reservations:
+ *   One row per reserved channel ID, indexed by expiry for purging.
+ *
+ * All writes touching more than one row run inside a transaction.
+ */
+export class SqliteChannelStore implements ChannelStore {
+  private readonly db: Database.Database;
+  private readonly retention: HistoryRetention;
+
+  constructor({ path, retention }: SqliteStoreParams) {
+    this.retention = retention ?? {};
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+  }
+
+  public async init(): Promise<void> {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS channels (
+        id TEXT PRIMARY KEY,
+        chain_id TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        asset TEXT NOT NULL,
+        status TEXT NOT NULL,
+        iteration INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS channels_status ON channels (status);
+      CREATE INDEX IF NOT EXISTS channels_chain_id ON channels (chain_id);
+      CREATE INDEX IF NOT EXISTS channels_sender ON channels (sender);
+      CREATE INDEX IF NOT EXISTS channels_asset ON channels (asset);
+      CREATE INDEX IF NOT EXISTS channels_updated_at ON channels (updated_at);
+
+      CREATE TABLE IF NOT EXISTS channel_history (
+        channel_id TEXT NOT NULL,
+        iteration INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        state TEXT NOT NULL,
+        PRIMARY KEY (channel_id, iteration)
+      );
+
+      CREATE TABLE IF NOT EXISTS claims (
+        id TEXT PRIMARY KEY,
+        record TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS usage (
+        channel_id TEXT PRIMARY KEY,
+        requests INTEGER NOT NULL,
+        bytes INTEGER NOT NULL,
+        seconds REAL NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS reservations (
+        id TEXT PRIMARY KEY,
+        chain_id TEXT NOT NULL,
+        subscriber TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS reservations_expires_at ON reservations (expires_at);
+    `);
+  }
+
+  public async close(): Promise<void> {
+    this.db.close();
+  }
+
+  public async getChannel(id: string): Promise<Channel | undefined> {
+    const row = this.db
+      .prepare("SELECT data FROM channels WHERE id = ?")
+      .get(id) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as Channel) : undefined;
+  }
+
+  public async getChannelHistory(id: string): Promise<ChannelState[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT state FROM channel_history WHERE channel_id = ? ORDER BY iteration"
+      )
+      .all(id) as { state: string }[];
+    return rows.map((row) => JSON.parse(row.state) as ChannelState);
+  }
+
+  public async getChannelStateAt(
+    id: string,
+    iteration: number
+  ): Promise<ChannelState | undefined> {
+    const row = this.db
+      .prepare(
+        "SELECT state FROM channel_history WHERE channel_id = ? AND iteration = ?"
+      )
+      .get(id, iteration) as { state: string } | undefined;
+    return row ? (JSON.parse(row.state) as ChannelState) : undefined;
+  }
+
+  public async getOpenChannels(): Promise<ChannelList> {
+    return await this.findChannels({ status: "open" });
+  }
+
+  public async getClosedChannels(): Promise<ChannelList> {
+    return await this.findChannels({ status: "closed" });
+  }
+
+  public async findChannels(filter: ChannelFilter): Promise<ChannelList> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (filter.status) {
+      conditions.push("status = ?");
+      params.push(filter.status);
+    }
+    if (filter.chainId) {
+      conditions.push("chain_id = ?");
+      params.push(filter.chainId);
+    }
+    if (filter.asset) {
+      conditions.push("asset = ?");
+      params.push(filter.asset.toLowerCase());
+    }
+    if (filter.sender) {
+      conditions.push("sender = ?");
+      params.push(filter.sender.toLowerCase());
+    }
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT id FROM channels ${where}`)
+      .all(...params) as { id: string }[];
+    return rows.map((row) => row.id);
+  }
+
+  public async getChannelsUpdatedBetween(
+    from: number,
+    to: number
+  ): Promise<ChannelList> {
+    const rows = this.db
+      .prepare(
+        "SELECT id FROM channels WHERE updated_at BETWEEN ? AND ? ORDER BY updated_at"
+      )
+      .all(from, to) as { id: string }[];
+    return rows.map((row) => row.id);
+  }
+
+  public async closeChannels(ids: string[]): Promise<boolean> {
+    const close = this.db.prepare(
+      "UPDATE channels SET status = 'closed' WHERE id = ? AND status = 'open'"
+    );
+    const closed = this.db.transaction((ids: string[]) =>
+      ids.reduce((count, id) => count + close.run(id).changes, 0)
+    )(ids);
+    return closed === ids.length;
+  }
+
+  public async recordClaim(record: ClaimRecord): Promise<void> {
+    this.db
+      .prepare("INSERT OR REPLACE INTO claims (id, record) VALUES (?, ?)")
+      .run(record.id, JSON.stringify(record));
+  }
+
+  public async getClaimRecord(id: string): Promise<ClaimRecord | undefined> {
+    const row = this.db
+      .prepare("SELECT record FROM claims WHERE id = ?")
+      .get(id) as { record: string } | undefined;
+    return row ? (JSON.parse(row.record) as ClaimRecord) : undefined;
+  }
+
+  public async recordUsage(id: string, usage: Usage): Promise<Usage> {
+    this.db
+      .prepare(
+        `INSERT INTO usage (channel_id, requests, bytes, seconds) VALUES (?, ?, ?, ?)
+          ON CONFLICT (channel_id) DO UPDATE SET
+            requests = requests + excluded.requests,
+            bytes = bytes + excluded.bytes,
+            seconds = seconds + excluded.seconds`
+      )
+      .run(id, usage.requests, usage.bytes, usage.seconds);
+    return await this.getUsage(id);
+  }
+
+  public async getUsage(id: string): Promise<Usage> {
+    const row = this.db
+      .prepare(
+        "SELECT requests, bytes, seconds FROM usage WHERE channel_id = ?"
+      )
+      .get(id) as Usage | undefined;
+    return row ?? { requests: 0, bytes: 0, seconds: 0 };
+  }
+
+  public async reserveId(reservation: Reservation): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO reservations (id, chain_id, subscriber, expires_at)
+          VALUES (?, ?, ?, ?)`
+      )
+      .run(
+        reservation.id,
+        reservation.chainId,
+        reservation.subscriber,
+        reservation.expiresAt
+      );
+  }
+
+  public async getReservation(id: string): Promise<Reservation | undefined> {
+    const row = this.db
+      .prepare(
+        `SELECT id, chain_id AS chainId, subscriber, expires_at AS expiresAt
+          FROM reservations WHERE id = ?`
+      )
+      .get(id) as Reservation | undefined;
+    return row;
+  }
+
+  public async releaseReservation(id: string): Promise<boolean> {
+    const result = this.db
+      .prepare("DELETE FROM reservations WHERE id = ?")
+      .run(id);
+    return result.changes > 0;
+  }
+
+  public async purgeReservations(before: number): Promise<number> {
+    const result = this.db
+      .prepare("DELETE FROM reservations WHERE expires_at < ?")
+      .run(before);
+    return result.changes;
+  }
+
+  public async insertChannel({
+    id,
+    chainId,
+    sender,
+    receiver,
+    asset,
+    scheme,
+    amount,
+    expiry,
+    signature,
+    receipt,
+  }: InsertChannelParams): Promise<number> {
+    const channel: Channel = {
+      id,
+      chainId,
+      sender,
+      receiver,
+      asset,
+      scheme,
+      state: {
+        timestamp: Math.floor(new Date().getTime() / 1000),
+        iteration: 1,
+        amount,
+        expiry,
+        signature,
+        receipt,
+      },
+    };
+
+    this.db.transaction(() => {
+      const res = this.db
+        .prepare(
+          `INSERT OR IGNORE INTO channels
+            (id, chain_id, sender, asset, status, iteration, updated_at, data)
+            VALUES (?, ?, ?, ?, 'open', ?, ?, ?)`
+        )
+        .run(
+          id,
+          chainId,
+          sender.toLowerCase(),
+          asset.toLowerCase(),
+          channel.state.iteration,
+          channel.state.timestamp,
+          JSON.stringify(channel)
+        );
+      if (res.changes === 0) {
+        throw new ConflictError(
+          `Channel with given ID (${id}) already exists.`,
+          "CHANNEL_EXISTS"
+        );
+      }
+      this.appendHistory(id, channel.state);
+    })();
+    return 1;
+  }
+
+  public async updateChannel({
+    id,
+    amount,
+    expiry,
+    signature,
+    iteration,
+    receipt,
+  }: UpdateChannelParams): Promise<number> {
+    this.db.transaction(() => {
+      const row = this.db
+        .prepare("SELECT status, data FROM channels WHERE id = ?")
+        .get(id) as { status: string; data: string } | undefined;
+      if (!row) {
+        throw new NotFoundError(
+          `Channel with given ID (${id}) does not exist.`,
+          "CHANNEL_NOT_FOUND"
+        );
+      }
+      if (row.status !== "open") {
+        throw new ConflictError(
+          `Channel with given ID ${id} is no longer open.`,
+          "CHANNEL_CLOSED"
+        );
+      }
+
+      const channel = JSON.parse(row.data) as Channel;
+      if (
+        iteration !== undefined &&
+        iteration !== channel.state.iteration + 1
+      ) {
+        throw new ConflictError(
+          `Channel with given ID (${id}) was updated concurrently. Please retry.`,
+          "CONCURRENT_UPDATE"
+        );
+      }
+      channel.state = {
+        timestamp: Math.floor(new Date().getTime() / 1000),
+        // Increasing iterations by 1.
+        iteration: channel.state.iteration + 1,
+        amount,
+        expiry,
+        signature,
+        receipt,
+      };
+      this.db
+        .prepare(
+          "UPDATE channels SET iteration = ?, updated_at = ?, data = ? WHERE id = ?"
+        )
+        .run(
+          channel.state.iteration,
+          channel.state.timestamp,
+          JSON.stringify(channel),
+          id
+        );
+      this.appendHistory(id, channel.state);
+    })();
+    return 1;
+  }
+
+  /**
+   * Append a state to the channel's history, then drop entries outside the retention policy.
+   * Must be called inside a transaction.
+   */
+  private appendHistory(id: string, state: ChannelState) {
+    this.db
+      .prepare(
+        "INSERT INTO channel_history (channel_id, iteration, timestamp, state) VALUES (?, ?, ?, ?)"
+      )
+      .run(id, state.iteration, state.timestamp, JSON.stringify(state));
+
+    if (!this.retention.maxEntries && !this.retention.maxAge) {
+      return;
+    }
+    const history = applyRetention(
+      this.db
+        .prepare(
+          "SELECT state FROM channel_history WHERE channel_id = ? ORDER BY iteration"
+        )
+        .all(id)
+        .map((row: { state: string }) => JSON.parse(row.state) as ChannelState),
+      this.retention
+    );
+    this.db
+      .prepare(
+        "DELETE FROM channel_history WHERE channel_id = ? AND iteration < ?"
+      )
+      .run(id, history[0].iteration);
+  }
+}
@@ -0,0 +1,591 @@
+import {
+  HDNodeWallet,
+  JsonRpcProvider,
+  TransactionReceipt,
+  keccak256,
+  parseUnits,
+} from "ethers";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { log } from "./logging.ts";
+
+// Fee and confirmation policy for transactions sent by the provider wallet.
+export type FeePolicy = {
+  // Upper bound on the max fee per gas (in gwei). Fees are never bumped past this.
+  maxFeePerGas: number;
+  // Upper bound on the max priority fee per gas (in gwei).
+  maxPriorityFeePerGas: number;
+  // Percentage by which fees are increased when replacing a stuck transaction. Most nodes
+  // require at least 10.
+  bumpPercent: number;
+  // Time after which an unmined transaction is considered stuck and replaced (in seconds).
+  stuckAfter: number;
+  // Time after which a transaction that still isn't mined is given up on (in seconds).
+  maxPending: number;
+  // Number of confirmations to wait for.
+  confirmations: number;
+  // Time between checks for receipts (in seconds).
+  pollInterval: number;
+};
+
+// A signed attempt at sending a journaled transaction. Replacements share the same nonce.
+type Attempt = {
+  hash: string;
+  // Signed, serialized transaction, kept so it can be rebroadcast after a restart.
+  raw: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  // Time the attempt was broadcast (in seconds).
+  sentAt: number;
+};
+
+// A transaction tracked in the journal.
+export type JournalEntry = {
+  // Identifies the transaction so it is never submitted twice.
+  key: string;
+  chainId: string;
+  // What the transaction is for, e.g. the ID of the channel being claimed.
+  ref?: string;
+  nonce: number;
+  to: string;
+  data: string;
+  gasLimit: string;
+  attempts: Attempt[];
+  status: "pending" | "confirmed" | "failed";
+  // Hash of the attempt that was mined, once confirmed or failed.
+  hash?: string;
+  // Time the entry was created (in seconds).
+  createdAt: number;
+};
+
+// Outcome of broadcasting a signed transaction: accepted by an endpoint, refused because its
+// nonce was already used, or not accepted by any endpoint.
+type BroadcastResult = "accepted" | "nonceTaken" | "failed";
+
+// Outcome of checking on a pending entry once it is no longer simply pending: confirmed,
+// failed, or mined but still waiting for confirmations.
+type PollResult = {
+  receipt?: TransactionReceipt;
+  error?: Error;
+  mined?: boolean;
+};
+
+// How long finished transactions are kept in the journal (in seconds).
+const JOURNAL_RETENTION = 60 * 60 * 24 * 7;
+
+const now = () => Math.floor(new Date().getTime() / 1000);
+const sleep = (seconds: number) =>
+  new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+
+/**
+ * Sends transactions from the provider wallet. Nonces are allocated locally, fees follow the
+ * configured EIP-1559 policy, and transactions that stay unmined past a deadline are replaced
+ * with bumped fees. Every transaction is persisted to a journal file before it is broadcast,
+ * so a restart resumes tracking pending transactions instead of losing or resubmitting them.
+ */
+export class TransactionManager {
+  private readonly wallet: HDNodeWallet;
+  private readonly journalPath: string;
+  private readonly getProviders: (chainId: string) => JsonRpcProvider[];
+  private readonly getPolicy: (chainId: string) => FeePolicy;
+  private readonly journal: Map<string, JournalEntry> = new Map();
+  // Next nonce to allocate, per chain.
+  private readonly nonces: Map<string, number> = new Map();
+  // Serializes nonce allocation, per chain.
+  private readonly nonceLocks: Map<string, Promise<unknown>> = new Map();
+  // Trackers for pending transactions, keyed by journal key.
+  private readonly trackers: Map<string, Promise<TransactionReceipt>> =
+    new Map();
+
+  /**
+   * @param wallet - The provider wallet.
+   * @param journalPath - Path to the journal file.
+   * @param getProviders - Returns the RPC providers for a chain, in order of preference.
+   * @param getPolicy - Returns the fee and confirmation policy for a chain. Looked up on every
+   * use, so policy changes apply to transactions that are already pending.
+   */
+  constructor(
+    wallet: HDNodeWallet,
+    journalPath: string,
+    getProviders: (chainId: string) => JsonRpcProvider[],
+    getPolicy: (chainId: string) => FeePolicy
+  ) {
+    this.wallet = wallet;
+    this.journalPath = journalPath;
+    this.getProviders = getProviders;
+    this.getPolicy = getPolicy;
+  }
+
+  /**
+   * Load the journal, rebroadcast any pending transactions and resume tracking them.
+   */
+  public async init(): Promise<void> {
+    if (existsSync(this.journalPath)) {
+      const entries = JSON.parse(
+        readFileSync(this.journalPath, "utf-8")
+      ) as JournalEntry[];
+      for (const entry of entries) {
+        this.journal.set(entry.key, entry);
+      }
+    }
+    for (const entry of this.journal.values()) {
+      if (entry.status !== "pending") {
+        continue;
+      }
+      log().info(
+        { key: entry.key, nonce: entry.nonce },
+        "Resuming pending transaction."
+      );
+      await this.broadcast(entry.chainId, entry.attempts.at(-1).raw, true);
+      this.startTracking(entry);
+    }
+  }
+
+  /**
+   * Get every transaction that has not been confirmed yet.
+   */
+  public getPending(): JournalEntry[] {
+    return [...this.journal.values()].filter(
+      (entry) => entry.status === "pending"
+    );
+  }
+
+  /**
+   * Check whether a transaction with the given reference is still pending.
+   */
+  public hasPending(ref: string): boolean {
+    return this.getPending().some((entry) => entry.ref === ref);
+  }
+
+  /**
+   * Estimate the worst case cost of sending a transaction at current fees, capped by the
+   * chain's policy.
+   *
+   * @param chainId - The chain the transaction would be sent on.
+   * @param to - The target address.
+   * @param data - The encoded calldata.
+   * @returns The cost in wei of the chain's native currency.
+   * @throws If gas estimation fails (e.g. the call would revert).
+   */
+  public async estimateCost(
+    chainId: string,
+    to: string,
+    data: string
+  ): Promise<bigint> {
+    const gas = await this.wallet
+      .connect(this.getProviders(chainId)[0])
+      .estimateGas({ to, data, chainId: +chainId });
+    const { maxFeePerGas } = await this.getInitialFees(chainId);
+    return gas * maxFeePerGas;
+  }
+
+  /**
+   * Send a transaction and wait for it to be confirmed. Submitting the same call again while
+   * it is pending waits on the original; submitting it after it was confirmed returns the
+   * original receipt.
+   *
+   * @param chainId - The chain to send the transaction on.
+   * @param to - The target address.
+   * @param data - The encoded calldata.
+   * @param ref - What the transaction is for, recorded in the journal.
+   * @returns The receipt of the confirmed transaction.
+   * @throws If gas estimation fails (e.g. the call would revert) or the transaction fails.
+   */
+  public async submit(
+    chainId: string,
+    to: string,
+    data: string,
+    ref?: string
+  ): Promise<TransactionReceipt> {
+    const key = `${chainId}:${to.toLowerCase()}:${keccak256(data)}`;
+    const existing = this.journal.get(key);
+    if (existing?.status === "pending") {
+      return await this.startTracking(existing);
+    }
+    if (existing?.status === "confirmed") {
+      const receipt = await this.getReceipt(chainId, existing.hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+
+    // Estimate before allocating a nonce, so calls that would revert never take one.
+    const providers = this.getProviders(chainId);
+    const estimate = await this.wallet
+      .connect(providers[0])
+      .estimateGas({ to, data, chainId: +chainId });
+
+    const entry = await this.withNonceLock(chainId, async () => {
+      // Retry once if the nonce turns out to be taken, e.g. by a transaction sent from the
+      // wallet outside the node, after resyncing nonces with the chain.
+      for (let tries = 0; ; tries++) {
+        const nonce = await this.allocateNonce(chainId);
+        const entry: JournalEntry = {
+          key,
+          chainId,
+          ref,
+          nonce,
+          to,
+          data,
+          // Leave some headroom over the estimate.
+          gasLimit: ((estimate * BigInt(120)) / BigInt(100)).toString(),
+          attempts: [],
+          status: "pending",
+          createdAt: now(),
+        };
+        const { maxFeePerGas, maxPriorityFeePerGas } =
+          await this.getInitialFees(chainId);
+        const attempt = await this.sign(
+          entry,
+          maxFeePerGas,
+          maxPriorityFeePerGas
+        );
+        entry.attempts.push(attempt);
+        // Persist before broadcasting, so a crash never loses a sent transaction.
+        this.journal.set(key, entry);
+        this.persist();
+
+        const result = await this.broadcast(chainId, attempt.raw, false);
+        if (result === "accepted") {
+          return entry;
+        }
+        // Nothing was sent, so drop the entry.
+        this.journal.delete(key);
+        this.persist();
+        if (result === "nonceTaken") {
+          log().warn(
+            { chainId, nonce },
+            "Nonce already used, resyncing nonces with the chain."
+          );
+          this.nonces.delete(chainId);
+          if (tries === 0) {
+            continue;
+          }
+          throw new Error(`Nonce ${nonce} was already used.`);
+        }
+        // Hand the nonce back if nothing else took a later one.
+        if (this.nonces.get(chainId) === nonce + 1) {
+          this.nonces.set(chainId, nonce);
+        }
+        throw new Error("Unable to broadcast transaction to any RPC endpoint.");
+      }
+    });
+    return await this.startTracking(entry);
+  }
+
+  private startTracking(entry: JournalEntry): Promise<TransactionReceipt> {
+    let tracker = this.trackers.get(entry.key);
+    if (!tracker) {
+      tracker = this.track(entry).finally(() =>
+        this.trackers.delete(entry.key)
+      );
+      this.trackers.set(entry.key, tracker);
+    }
+    return tracker;
+  }
+
+  /**
+   * Poll for a receipt of any attempt of the entry until it is confirmed, replacing the
+   * transaction with bumped fees whenever it is stuck. RPC errors while polling are logged
+   * and retried on the next poll, as the entry stays pending until it is resolved. Entries
+   * that still aren't mined after the policy's `maxPending` are given up on and fail.
+   */
+  private async track(entry: JournalEntry): Promise<TransactionReceipt> {
+    while (true) {
+      await sleep(this.getPolicy(entry.chainId).pollInterval);
+
+      let result: PollResult | undefined;
+      try {
+        result = await this.poll(entry);
+      } catch (e) {
+        log().warn(
+          { key: entry.key, err: e },
+          "Unable to check transaction, retrying."
+        );
+      }
+      if (result?.error) {
+        throw result.error;
+      }
+      if (result?.receipt) {
+        return result.receipt;
+      }
+      const { maxPending } = this.getPolicy(entry.chainId);
+      if (!result?.mined && now() - entry.createdAt >= maxPending) {
+        entry.status = "failed";
+        this.persist();
+        // The nonce may never be used now, so resync nonces with the chain to reuse it.
+        this.nonces.delete(entry.chainId);
+        log().warn(
+          { key: entry.key, nonce: entry.nonce },
+          "Transaction was not mined in time, giving up."
+        );
+        throw new Error(
+          `Transaction ${entry.key} was not mined within ${maxPending}s.`
+        );
+      }
+    }
+  }
+
+  /**
+   * Check on a pending entry once, replacing it if it is stuck.
+   * @returns The receipt once confirmed, the error once it failed, `mined` while waiting for
+   * confirmations, undefined while pending.
+   */
+  private async poll(entry: JournalEntry): Promise<PollResult | undefined> {
+    const receipt = await this.findReceipt(entry);
+    if (receipt) {
+      if (
+        (await receipt.confirmations()) <
+        this.getPolicy(entry.chainId).confirmations
+      ) {
+        // Mined, but not final yet. Never replace a mined transaction.
+        return { mined: true };
+      }
+      entry.hash = receipt.hash;
+      entry.status = receipt.status === 1 ? "confirmed" : "failed";
+      this.persist();
+      if (entry.status === "failed") {
+        return { error: new Error(`Transaction ${receipt.hash} reverted.`) };
+      }
+      return { receipt };
+    }
+
+    // If the nonce was used up without any of our attempts being mined, some other
+    // transaction took its place.
+    const provider = this.getProviders(entry.chainId)[0];
+    const mined = await provider.getTransactionCount(
+      this.wallet.address,
+      "latest"
+    );
+    if (mined > entry.nonce && !(await this.findReceipt(entry))) {
+      entry.status = "failed";
+      this.persist();
+      // Nonces allocated since may be stale too, so resync them with the chain.
+      this.nonces.delete(entry.chainId);
+      return {
+        error: new Error(
+          `Nonce ${entry.nonce} was used by another transaction (${entry.key}).`
+        ),
+      };
+    }
+
+    const latest = entry.attempts.at(-1);
+    if (now() - latest.sentAt >= this.getPolicy(entry.chainId).stuckAfter) {
+      await this.replace(entry);
+    }
+    return undefined;
+  }
+
+  /**
+   * Re-sign the entry with fees bumped by the configured percentage (capped by the policy)
+   * and broadcast the replacement. At the cap, the latest attempt is broadcast again instead,
+   * in case it was dropped from the mempool.
+   */
+  private async replace(entry: JournalEntry) {
+    const latest = entry.attempts.at(-1);
+    const policy = this.getPolicy(entry.chainId);
+    const cap = this.getFeeCaps(policy);
+    const bump = (value: string, max: bigint) => {
+      const bumped =
+        (BigInt(value) * BigInt(100 + policy.bumpPercent)) / BigInt(100);
+      return bumped > max ? max : bumped;
+    };
+    const maxFeePerGas = bump(latest.maxFeePerGas, cap.maxFeePerGas);
+    const maxPriorityFeePerGas = bump(
+      latest.maxPriorityFeePerGas,
+      cap.maxPriorityFeePerGas
+    );
+    if (maxFeePerGas.toString() === latest.maxFeePerGas) {
+      log().warn(
+        { key: entry.key },
+        "Transaction is stuck, but fees are already at the cap. Rebroadcasting."
+      );
+      latest.sentAt = now();
+      this.persist();
+      await this.broadcast(entry.chainId, latest.raw, true);
+      return;
+    }
+
+    const attempt = await this.sign(entry, maxFeePerGas, maxPriorityFeePerGas);
+    entry.attempts.push(attempt);
+    this.persist();
+    log().info(
+      { key: entry.key, previous: latest.hash, replacement: attempt.hash },
+      "Replacing stuck transaction."
+    );
+    await this.broadcast(entry.chainId, attempt.raw, true);
+  }
+
+  private async sign(
+    entry: JournalEntry,
+    maxFeePerGas: bigint,
+    maxPriorityFeePerGas: bigint
+  ): Promise<Attempt> {
+    const raw = await this.wallet.signTransaction({
+      type: 2,
+      chainId: +entry.chainId,
+      nonce: entry.nonce,
+      to: entry.to,
+      data: entry.data,
+      gasLimit: BigInt(entry.gasLimit),
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    });
+    return {
+      hash: keccak256(raw),
+      raw,
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      sentAt: now(),
+    };
+  }
+
+  /**
+   * Broadcast a signed transaction to the chain's providers until one accepts it.
+   * @param rebroadcast - Whether the transaction's nonce is already journaled with an earlier
+   * attempt, which may have been mined since.
+   * @returns "accepted" if any provider accepted (or already knew) the transaction,
+   * "nonceTaken" if its nonce was already used by a transaction that isn't ours.
+   */
+  private async broadcast(
+    chainId: string,
+    raw: string,
+    rebroadcast: boolean
+  ): Promise<BroadcastResult> {
+    let result: BroadcastResult = "failed";
+    for (const provider of this.getProviders(chainId)) {
+      try {
+        await provider.broadcastTransaction(raw);
+        return "accepted";
+      } catch (e) {
+        const message = e.message ?? "";
+        // Rebroadcasts of transactions the node has already seen are fine.
+        if (/already known/i.test(message)) {
+          return "accepted";
+        }
+        // A used nonce is fine if one of our earlier attempts may have been mined, which
+        // tracking checks for. On a first send, it means the nonce is stale.
+        if (/nonce too low/i.test(message)) {
+          if (rebroadcast) {
+            return "accepted";
+          }
+          result = "nonceTaken";
+          continue;
+        }
+        log().warn(
+          { chainId, endpoint: provider._getConnection().url, err: e },
+          "Broadcast failed."
+        );
+      }
+    }
+    return result;
+  }
+
+  private async getInitialFees(
+    chainId: string
+  ): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    const cap = this.getFeeCaps(this.getPolicy(chainId));
+    const feeData = await this.getProviders(chainId)[0].getFeeData();
+    const maxFeePerGas = feeData.maxFeePerGas ?? cap.maxFeePerGas;
+    const maxPriorityFeePerGas =
+      feeData.maxPriorityFeePerGas ?? cap.maxPriorityFeePerGas;
+    return {
+      maxFeePerGas:
+        maxFeePerGas > cap.maxFeePerGas ? cap.maxFeePerGas : maxFeePerGas,
+      maxPriorityFeePerGas:
+        maxPriorityFeePerGas > cap.maxPriorityFeePerGas
+          ? cap.maxPriorityFeePerGas
+          : maxPriorityFeePerGas,
+    };
+  }
+
+  private getFeeCaps(policy: FeePolicy): {
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+  } {
+    return {
+      maxFeePerGas: parseUnits(policy.maxFeePerGas.toString(), "gwei"),
+      maxPriorityFeePerGas: parseUnits(
+        policy.maxPriorityFeePerGas.toString(),
+        "gwei"
+      ),
+    };
+  }
+
+  /**
+   * Allocate the next nonce for the chain. Must be called under the chain's nonce lock.
+   */
+  private async allocateNonce(chainId: string): Promise<number> {
+    let nonce = this.nonces.get(chainId);
+    if (nonce === undefined) {
+      // Start from whichever is higher: what the chain has seen, or what we've journaled as
+      // pending. Finished entries' nonces are either mined or free to use again.
+      const pending = await this.getProviders(chainId)[0].getTransactionCount(
+        this.wallet.address,
+        "pending"
+      );
+      const journaled = [...this.journal.values()]
+        .filter(
+          (entry) => entry.chainId === chainId && entry.status === "pending"
+        )
+        .map((entry) => entry.nonce + 1);
+      nonce = Math.max(pending, ...journaled);
+    }
+    this.nonces.set(chainId, nonce + 1);
+    return nonce;
+  }
+
+  private async withNonceLock<T>(
+    chainId: string,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const previous = this.nonceLocks.get(chainId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(fn);
+    this.nonceLocks.set(chainId, next);
+    return await next;
+  }
+
+  private async findReceipt(
+    entry: JournalEntry
+  ): Promise<TransactionReceipt | undefined> {
+    // Check the most recent attempt first, as it is the most likely to be mined.
+    for (const attempt of [...entry.attempts].reverse()) {
+      const receipt = await this.getReceipt(entry.chainId, attempt.hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return undefined;
+  }
+
+  private async getReceipt(
+    chainId: string,
+    hash: string
+  ): Promise<TransactionReceipt | undefined> {
+    for (const provider of this.getProviders(chainId)) {
+      try {
+        return (await provider.getTransactionReceipt(hash)) ?? undefined;
+      } catch (e) {
+        continue;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Write the journal to disk, dropping finished entries past the retention period.
+   */
+  private persist() {
+    for (const [key, entry] of this.journal) {
+      if (
+        entry.status !== "pending" &&
+        now() - entry.createdAt > JOURNAL_RETENTION
+      ) {
+        this.journal.delete(key);
+      }
+    }
+    // Write to a temporary file first, so a crash mid-write never corrupts the journal.
+    const tmp = `${this.journalPath}.tmp`;
+    writeFileSync(tmp, JSON.stringify([...this.journal.values()], null, 2));
+    renameSync(tmp, this.journalPath);
+  }
+}
@@ -0,0 +1,248 @@
+import { createHash, timingSafeEqual } from "crypto";
+import pino from "pino";
+import { ForbiddenError, UnauthorizedError } from "./errors.ts";
+import type {
+  FastifyReply,
+  FastifyRequest,
+  onResponseAsyncHookHandler,
+  preHandlerAsyncHookHandler,
+} from "fastify";
+import { log, logger } from "./logging.ts";
+
+/**
+ * Operators authenticate with named API keys sent in the `x-api-key` header. Only the sha256
+ * hash of each key is kept in the config, and presented keys are hashed and compared against
+ * every configured hash in constant time. Each key carries a role:
+ *
+ *   read:     see admin views of channels (signatures, full channel data).
+ *   operator: also act on channels, e.g. trigger redemptions and record usage.
+ *   admin:    everything, including node administration.
+ *
+ * Keys are rotated by adding the new key's hash, reloading the config with SIGHUP, then
+ * removing the old one and reloading again. Every operator and admin action, and every
+ * rejected attempt at one, is appended to the audit log as a line of JSON. Lines are written
+ * asynchronously, like the rest of the logs, so requests don't wait on the disk.
+ */
+
+export type Role = "read" | "operator" | "admin";
+
+// Roles in order of increasing privilege. Each role includes the ones before it.
+const ROLES: Role[] = ["read", "operator", "admin"];
+
+// A configured API key.
+export type ApiKey = {
+  // Identifies the key in the audit log.
+  name: string;
+  // sha256 of the key, as hex.
+  hash: string;
+  role: Role;
+};
+
+export type AuthParams = {
+  keys: ApiKey[];
+  // Path to the audit log file.
+  auditLog: string;
+  // Deprecated: also accept the shared admin token, in the `adminToken` body field or the
+  // `x-admin-token` header, as an admin key named "legacy".
+  legacyAdminToken: boolean;
+};
+
+// The key a request was authenticated with.
+export type Principal = {
+  name: string;
+  role: Role;
+};
+
+// A line of the audit log.
+type AuditEntry = {
+  // Time of the action (ISO 8601).
+  time: string;
+  // Name of the key used, if any was recognised.
+  key?: string;
+  role?: Role;
+  // The request acted on, e.g. "POST /channels/redeem".
+  action: string;
+  ip: string;
+  outcome: "allowed" | "unauthenticated" | "forbidden";
+  // Response status code of allowed actions.
+  status?: number;
+};
+
+const API_KEY_HEADER = "x-api-key";
+const LEGACY_TOKEN_HEADER = "x-admin-token";
+
+const sha256 = (value: string): Buffer =>
+  createHash("sha256").update(value).digest();
+
+type AuditStream = ReturnType<typeof pino.destination>;
+
+// Open the audit log for asynchronous appends.
+const openAuditLog = (path: string): AuditStream => {
+  const stream = pino.destination({ dest: path, append: true, sync: false });
+  stream.on("error", (e) => {
+    logger.error({ err: e, path }, "Failed to write audit log.");
+  });
+  return stream;
+};
+
+export class Authenticator {
+  private params: AuthParams;
+  private adminToken?: string;
+  private auditLog?: AuditStream;
+  // Key hashes, decoded once per config.
+  private hashes: { key: ApiKey; hash: Buffer }[] = [];
+  private readonly principals: WeakMap<FastifyRequest, Principal> =
+    new WeakMap();
+
+  constructor(params: AuthParams, adminToken?: string) {
+    this.reconfigure(params, adminToken);
+  }
+
+  /**
+   * Replace the configured keys and settings. Requests already authenticated keep their
+   * principal.
+   *
+   * @param params - The new auth settings.
+   * @param adminToken - The shared admin token, only accepted with `legacyAdminToken` set.
+   */
+  public reconfigure(params: AuthParams, adminToken?: string) {
+    if (this.auditLog && params.auditLog !== this.params.auditLog) {
+      this.auditLog.end();
+      this.auditLog = undefined;
+    }
+    this.params = params;
+    this.adminToken = adminToken;
+    this.hashes = params.keys.map((key) => ({
+      key,
+      hash: Buffer.from(key.hash.replace(/^0x/, ""), "hex"),
+    }));
+    if (params.legacyAdminToken && adminToken) {
+      log().warn(
+        "Accepting the shared admin token is deprecated. Configure API keys under " +
+          "server.auth.keys and disable server.auth.legacyAdminToken."
+      );
+    }
+  }
+
+  /**
+   * Work out which key, if any, a request was made with.
+   *
+   * @param req - The incoming request.
+   * @returns The matching key's name and role, undefined if none matched.
+   */
+  public authenticate(req: FastifyRequest): Principal | undefined {
+    if (this.principals.has(req)) {
+      return this.principals.get(req);
+    }
+    let principal: Principal | undefined;
+    const key = req.headers[API_KEY_HEADER];
+    if (typeof key === "string" && key.length > 0) {
+      const presented = sha256(key);
+      // Check every key, so the time taken doesn't reveal which one matched.
+      for (const { key, hash } of this.hashes) {
+        if (
+          hash.length === presented.length &&
+          timingSafeEqual(hash, presented) &&
+          !principal
+        ) {
+          principal = { name: key.name, role: key.role };
+        }
+      }
+    } else if (this.params.legacyAdminToken && this.adminToken) {
+      const header = req.headers[LEGACY_TOKEN_HEADER];
+      const token =
+        typeof header === "string"
+          ? header
+          : (req.body as { adminToken?: unknown })?.adminToken;
+      if (
+        typeof token === "string" &&
+        timingSafeEqual(sha256(token), sha256(this.adminToken))
+      ) {
+        principal = { name: "legacy", role: "admin" };
+      }
+    }
+    this.principals.set(req, principal);
+    return principal;
+  }
+
+  /**
+   * Checks whether a request was made with a key holding at least the given role.
+   *
+   * @param req - The incoming request.
+   * @param role - The least privileged role allowed.
+   * @returns true if the request is allowed.
+   */
+  public hasRole(req: FastifyRequest, role: Role): boolean {
+    const principal = this.authenticate(req);
+    return !!principal && ROLES.indexOf(principal.role) >= ROLES.indexOf(role);
+  }
+
+  /**
+   * Route hooks restricting a route to keys holding at least the given role. Rejected
+   * requests get a 401 (no valid key) or 403 (insufficient role), and every attempt is
+   * written to the audit log.
+   *
+   * @param role - The least privileged role allowed.
+   * @returns Hooks to spread into the route options.
+   */
+  public guard(role: Role): {
+    preHandler: preHandlerAsyncHookHandler;
+    onResponse: onResponseAsyncHookHandler;
+  } {
+    return {
+      preHandler: async (req) => {
+        if (!this.authenticate(req)) {
+          this.audit(req, "unauthenticated");
+          throw new UnauthorizedError(
+            "Unauthorized to perform this operation."
+          );
+        }
+        if (!this.hasRole(req, role)) {
+          this.audit(req, "forbidden");
+          throw new ForbiddenError(
+            `Forbidden: this operation requires the ${role} role.`
+          );
+        }
+      },
+      onResponse: async (req, res) => {
+        if (this.hasRole(req, role)) {
+          this.audit(req, "allowed", res);
+        }
+      },
+    };
+  }
+
+  private audit(
+    req: FastifyRequest,
+    outcome: AuditEntry["outcome"],
+    res?: FastifyReply
+  ) {
+    const principal = this.authenticate(req);
+    const entry: AuditEntry = {
+      time: new Date().toISOString(),
+      key: principal?.name,
+      role: principal?.role,
+      action: `${req.method} ${req.url}`,
+      ip: req.ip,
+      outcome,
+      status: res?.statusCode,
+    };
+    this.auditLog ??= openAuditLog(this.params.auditLog);
+    this.auditLog.write(JSON.stringify(entry) + "\n");
+  }
+
+  /**
+   * Write out pending audit log lines and close the file.
+   */
+  public async close(): Promise<void> {
+    const stream = this.auditLog;
+    this.auditLog = undefined;
+    if (stream) {
+      await new Promise<void>((resolve) => {
+        stream.once("close", () => resolve());
+        stream.once("error", () => resolve());
+        stream.end();
+      });
+    }
+  }
+}
@@ -0,0 +1,507 @@
+import { Static, TSchema, Type } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { readFileSync } from "fs";
+import { dirname, extname, resolve } from "path";
+import { parse as parseYaml } from "yaml";
+import { ChainParams, ContractInfo } from "./ProviderNode.ts";
+import { ConfigError } from "./errors.ts";
+
+const AddressSchema = Type.String({ pattern: "^0x[0-9a-fA-F]{40}$" });
+// Rates and prices are converted to 18 decimals of fixed point precision, so allow no more.
+const DecimalSchema = Type.String({ pattern: "^[0-9]+(\\.[0-9]{1,18})?$" });
+
+// A contract can be described by an inline ABI and address, or by a path to a compiled
+// artifact (resolved relative to the config file). An explicit address overrides the
+// artifact's address.
+const ContractConfigSchema = Type.Object(
+  {
+    address: Type.Optional(AddressSchema),
+    abi: Type.Optional(Type.Array(Type.Any())),
+    artifact: Type.Optional(Type.String({ minLength: 1 })),
+  },
+  { additionalProperties: false }
+);
+
+// Fee and confirmation policy for transactions sent by the provider wallet.
+const FeePolicySchema = {
+  // Cap on the max fee per gas (in gwei).
+  maxFeePerGas: Type.Number({ exclusiveMinimum: 0 }),
+  // Cap on the max priority fee per gas (in gwei).
+  maxPriorityFeePerGas: Type.Number({ exclusiveMinimum: 0 }),
+  // Percentage by which fees are bumped when replacing a stuck transaction.
+  bumpPercent: Type.Integer({ minimum: 10 }),
+  // Time after which an unmined transaction is replaced (in seconds).
+  stuckAfter: Type.Integer({ minimum: 1 }),
+  // Time after which a transaction that still isn't mined is given up on (in seconds).
+  maxPending: Type.Integer({ minimum: 1 }),
+  // Confirmations to wait for before a transaction counts as final.
+  confirmations: Type.Integer({ minimum: 1 }),
+  // Time between checks for receipts (in seconds).
+  pollInterval: Type.Integer({ minimum: 1 }),
+};
+
+const ChainConfigSchema = Type.Object(
+  {
+    // Human-readable name, used in logs.
+    name: Type.Optional(Type.String()),
+    // RPC endpoint URLs, in order of preference.
+    rpc: Type.Array(Type.String({ pattern: "^(https?|wss?)://" }), {
+      minItems: 1,
+    }),
+    // Accepted asset addresses.
+    assets: Type.Array(AddressSchema, { minItems: 1 }),
+    contracts: Type.Object(
+      {
+        Payments: ContractConfigSchema,
+        SemaphoreHSS: ContractConfigSchema,
+      },
+      { additionalProperties: false }
+    ),
+    // Minimum time (in seconds) until expiry for channel states on this chain.
+    expiryTolerance: Type.Optional(Type.Integer({ minimum: 0 })),
+    // Index of the provider's key in SemaphoreHSS. If unset, every provider key is searched.
+    providerIndex: Type.Optional(Type.Integer({ minimum: 0 })),
+    // Health checking and quorum settings for the RPC endpoints.
+    pool: Type.Optional(
+      Type.Object(
+        {
+          // Time between health probes (in seconds).
+          probeInterval: Type.Optional(Type.Integer({ minimum: 1 })),
+          // Time after which a probe is considered failed (in seconds).
+          probeTimeout: Type.Optional(Type.Integer({ minimum: 1 })),
+          // Blocks an endpoint may lag behind the highest one before leaving rotation.
+          maxBlockLag: Type.Optional(Type.Integer({ minimum: 0 })),
+          // Endpoints that must agree on critical reads (isSubscriber, checkBalance).
+          quorum: Type.Optional(Type.Integer({ minimum: 1 })),
+        },
+        { additionalProperties: false }
+      )
+    ),
+    // Value of one base unit of each asset in wei of the native currency, as a decimal string.
+    // Claims worth less than their gas cost are deferred until the channel nears expiry.
+    rates: Type.Optional(
+      Type.Record(AddressSchema, DecimalSchema, { additionalProperties: false })
+    ),
+    // Price of service in each asset, in base units per request, byte or second (decimal
+    // strings). Service is refused once usage runs ahead of the signed amount by more than
+    // `creditLimit` base units.
+    prices: Type.Optional(
+      Type.Record(
+        AddressSchema,
+        Type.Object(
+          {
+            request: Type.Optional(DecimalSchema),
+            byte: Type.Optional(DecimalSchema),
+            second: Type.Optional(DecimalSchema),
+            creditLimit: Type.Optional(Type.String({ pattern: "^[0-9]+$" })),
+          },
+          { additionalProperties: false }
+        ),
+        { additionalProperties: false }
+      )
+    ),
+    // EIP-712 settings of the Payments contract. Typed-data channels are only accepted on
+    // chains that set this, which needs a Payments deployment with a typed-data claim; the
+    // bundled artifacts only have the packed `claim`.
+    eip712: Type.Optional(
+      Type.Object(
+        {
+          // Domain name and version, as set in the contract. Default to "Payments" and "1".
+          name: Type.Optional(Type.String()),
+          version: Type.Optional(Type.String()),
+          // Payments function that claims typed-data states, with the same args as `claim`.
+          claimFunction: Type.String({ minLength: 1 }),
+        },
+        { additionalProperties: false }
+      )
+    ),
+    // Overrides of the node-wide transaction settings for this chain.
+    transactions: Type.Optional(
+      Type.Partial(
+        Type.Object(FeePolicySchema, { additionalProperties: false })
+      )
+    ),
+  },
+  { additionalProperties: false }
+);
+
+export const NodeConfigSchema = Type.Object(
+  {
+    server: Type.Object(
+      {
+        host: Type.String({ default: "0.0.0.0" }),
+        port: Type.Integer({ minimum: 0, maximum: 65535, default: 8080 }),
+        logLevel: Type.Union(
+          [
+            Type.Literal("fatal"),
+            Type.Literal("error"),
+            Type.Literal("warn"),
+            Type.Literal("info"),
+            Type.Literal("debug"),
+            Type.Literal("trace"),
+            Type.Literal("silent"),
+          ],
+          { default: "info" }
+        ),
+        // Deprecated, see `auth.legacyAdminToken`. Should be provided through the ADMIN_TOKEN
+        // env var rather than the file.
+        adminToken: Type.Optional(Type.String({ minLength: 1 })),
+        auth: Type.Object(
+          {
+            // API keys accepted in the `x-api-key` header.
+            keys: Type.Array(
+              Type.Object(
+                {
+                  name: Type.String({ minLength: 1 }),
+                  // sha256 of the key, as hex.
+                  hash: Type.String({ pattern: "^(0x)?[0-9a-fA-F]{64}$" }),
+                  role: Type.Union([
+                    Type.Literal("read"),
+                    Type.Literal("operator"),
+                    Type.Literal("admin"),
+                  ]),
+                },
+                { additionalProperties: false }
+              ),
+              { default: [] }
+            ),
+            // File every operator and admin action is appended to.
+            auditLog: Type.String({ default: "audit.log" }),
+            // Also accept `adminToken` as an admin key. Deprecated, will be removed.
+            legacyAdminToken: Type.Boolean({ default: false }),
+          },
+          { additionalProperties: false, default: {} }
+        ),
+        // Subscriber sessions, see src/sessions.ts.
+        sessions: Type.Object(
+          {
+            // Require a session token on /uuid and the channel open, update and stream routes.
+            required: Type.Boolean({ default: true }),
+            // Key session tokens are signed with. Should be provided through the
+            // SESSION_SECRET env var. A random one is generated on startup if unset, so
+            // sessions don't survive a restart.
+            secret: Type.Optional(Type.String({ minLength: 32 })),
+            // How long a challenge may be answered for (in seconds).
+            challengeTtl: Type.Integer({ minimum: 1, default: 5 * 60 }),
+            // How long a session token is valid for (in seconds).
+            sessionTtl: Type.Integer({ minimum: 1, default: 60 * 60 }),
+            // Require the challenge to be signed with the key registered in SemaphoreHSS.
+            registeredKeys: Type.Boolean({ default: false }),
+          },
+          { additionalProperties: false, default: {} }
+        ),
+        // WebSocket update streams.
+        streams: Type.Object(
+          {
+            // Queued updates at which a stream stops reading from its socket.
+            highWaterMark: Type.Integer({ minimum: 1, default: 32 }),
+            // Unsent bytes at which a stream waits for the client to read its acks.
+            maxBufferedAmount: Type.Integer({
+              minimum: 1,
+              default: 1024 * 1024,
+            }),
+            // Largest accepted message (in bytes).
+            maxPayload: Type.Integer({ minimum: 1, default: 4096 }),
+          },
+          { additionalProperties: false, default: {} }
+        ),
+        // Prometheus metrics, see src/metrics.ts.
+        metrics: Type.Object(
+          {
+            // Serve metrics on GET /metrics.
+            enabled: Type.Boolean({ default: true }),
+          },
+          { additionalProperties: false, default: {} }
+        ),
+      },
+      { additionalProperties: false, default: {} }
+    ),
+    store: Type.Object(
+      {
+        type: Type.Union(
+          [
+            Type.Literal("redis"),
+            Type.Literal("memory"),
+            Type.Literal("sqlite"),
+          ],
+          { default: "redis" }
+        ),
+        redis: Type.Object(
+          {
+            host: Type.String({ default: "localhost" }),
+            port: Type.Integer({ minimum: 0, maximum: 65535, default: 6379 }),
+          },
+          { additionalProperties: false, default: {} }
+        ),
+        sqlite: Type.Object(
+          {
+            path: Type.String({ default: "channels.db" }),
+          },
+          { additionalProperties: false, default: {} }
+        ),
+      },
+      { additionalProperties: false, default: {} }
+    ),
+    channels: Type.Object(
+      {
+        // Time-to-live since last update (in seconds).
+        ttl: Type.Integer({ minimum: 0, default: 30 * 60 }),
+        // Default minimum time until expiry (in seconds), for chains that don't set their own.
+        expiryTolerance: Type.Integer({ minimum: 0, default: 60 * 60 * 48 }),
+        // What to do when a subscriber opens a second channel for the same chain and asset:
+        // allow it, queue the old one for claim, or refuse the new one.
+        singleActive: Type.Union(
+          [
+            Type.Literal("off"),
+            Type.Literal("replace"),
+            Type.Literal("reject"),
+          ],
+          { default: "replace" }
+        ),
+        // Refuse to open channels on chains where the provider isn't registered in SemaphoreHSS.
+        requireRegistration: Type.Boolean({ default: true }),
+        reservations: Type.Object(
+          {
+            // How long an ID from /uuid may be used to open a channel (in seconds).
+            ttl: Type.Integer({ minimum: 1, default: 10 * 60 }),
+            // How often to purge expired reservations (in seconds).
+            purgeInterval: Type.Integer({ minimum: 1, default: 5 * 60 }),
+          },
+          { additionalProperties: false, default: {} }
+        ),
+        history: Type.Object(
+          {
+            maxEntries: Type.Optional(Type.Integer({ minimum: 1 })),
+            maxAge: Type.Optional(Type.Integer({ minimum: 1 })),
+          },
+          { additionalProperties: false, default: { maxEntries: 1000 } }
+        ),
+        scheduler: Type.Object(
+          {
+            // How often to look for channels to redeem (in seconds).
+            interval: Type.Integer({ minimum: 1, default: 5 * 60 }),
+            // Redeem channels once their signed expiry is this close (in seconds).
+            expiryMargin: Type.Integer({ minimum: 0, default: 6 * 60 * 60 }),
+          },
+          { additionalProperties: false, default: {} }
+        ),
+        withdrawals: Type.Object(
+          {
+            // How often to check for pending withdrawals (in seconds).
+            interval: Type.Integer({ minimum: 1, default: 60 }),
+            // Claim channels once a pending withdrawal is this close to unlocking (in seconds).
+            margin: Type.Integer({ minimum: 0, default: 60 * 60 }),
+          },
+          { additionalProperties: false, default: {} }
+        ),
+        // Retiring the node on SIGTERM or POST /retire.
+        retirement: Type.Object(
+          {
+            // How long to keep accepting updates to open channels for (in seconds).
+            grace: Type.Integer({ minimum: 0, default: 0 }),
+            // Time between claim rounds while claims are failing (in seconds).
+            retryInterval: Type.Integer({ minimum: 1, default: 30 }),
+            // Time to keep claiming for once the grace period ends (in seconds). Channels still
+            // open after that, e.g. because their chain is unreachable, are reported unclaimable.
+            timeout: Type.Integer({ minimum: 0, default: 60 * 60 }),
+          },
+          { additionalProperties: false, default: {} }
+        ),
+      },
+      { additionalProperties: false, default: {} }
+    ),
+    transactions: Type.Object(
+      {
+        // Path to the journal file of pending transactions.
+        journal: Type.String({ default: "transactions.json" }),
+        maxFeePerGas: { ...FeePolicySchema.maxFeePerGas, default: 100 },
+        maxPriorityFeePerGas: {
+          ...FeePolicySchema.maxPriorityFeePerGas,
+          default: 2,
+        },
+        bumpPercent: { ...FeePolicySchema.bumpPercent, default: 15 },
+        stuckAfter: { ...FeePolicySchema.stuckAfter, default: 3 * 60 },
+        maxPending: { ...FeePolicySchema.maxPending, default: 30 * 60 },
+        confirmations: { ...FeePolicySchema.confirmations, default: 1 },
+        pollInterval: { ...FeePolicySchema.pollInterval, default: 5 },
+      },
+      { additionalProperties: false, default: {} }
+    ),
+    chains: Type.Record(
+      Type.String({ pattern: "^[0-9]+$" }),
+      ChainConfigSchema
+    ),
+  },
+  { additionalProperties: false }
+);
+type RawNodeConfig = Static<typeof NodeConfigSchema>;
+
+// The validated config, with every chain's contracts resolved to an ABI and address.
+export type NodeConfig = Omit<RawNodeConfig, "chains"> & {
+  chains: { [chainId: string]: ChainParams & { name?: string } };
+};
+
+// Env vars that override individual settings from the config file.
+const ENV_OVERRIDES: { [env: string]: string[] } = {
+  HOST: ["server", "host"],
+  PORT: ["server", "port"],
+  LOG_LEVEL: ["server", "logLevel"],
+  ADMIN_TOKEN: ["server", "adminToken"],
+  SESSION_SECRET: ["server", "sessions", "secret"],
+  STORE: ["store", "type"],
+  REDIS_HOST: ["store", "redis", "host"],
+  REDIS_PORT: ["store", "redis", "port"],
+  SQLITE_PATH: ["store", "sqlite", "path"],
+  TX_JOURNAL: ["transactions", "journal"],
+};
+
+/**
+ * Loads the node config from a JSON or YAML file, applies env var overrides and defaults, and
+ * validates the result.
+ *
+ * Besides the vars in ENV_OVERRIDES, `CHAIN_<chainId>_RPC` may be set to a comma-separated
+ * list of RPC URLs replacing the ones configured for that chain.
+ *
+ * @param path - Path to the config file. Files ending in .yaml or .yml are parsed as YAML,
+ * anything else as JSON.
+ * @param env - Env vars to read overrides from.
+ * @returns The validated config.
+ * @throws ConfigError describing every problem found.
+ */
+export const loadConfig = (
+  path: string,
+  env: NodeJS.ProcessEnv = process.env
+): NodeConfig => {
+  let raw: any;
+  try {
+    const contents = readFileSync(path, "utf-8");
+    raw = [".yaml", ".yml"].includes(extname(path).toLowerCase())
+      ? parseYaml(contents)
+      : JSON.parse(contents);
+  } catch (e) {
+    throw new ConfigError(path, [e.message]);
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(path, ["Config must be an object."]);
+  }
+
+  applyEnvOverrides(raw, env);
+  const config = validate(NodeConfigSchema, raw, path);
+
+  const problems: string[] = [];
+  const keyNames = config.server.auth.keys.map((key) => key.name);
+  for (const [i, name] of keyNames.entries()) {
+    if (keyNames.indexOf(name) !== i) {
+      problems.push(`/server/auth/keys/${i}/name: Duplicate key name ${name}.`);
+    }
+  }
+
+  // Resolve each chain's contracts into an ABI and address.
+  const chains: NodeConfig["chains"] = {};
+  for (const [chainId, chain] of Object.entries(config.chains)) {
+    const contracts = {} as ChainParams["contracts"];
+    for (const name of ["Payments", "SemaphoreHSS"] as const) {
+      try {
+        contracts[name] = resolveContract(
+          chain.contracts[name],
+          dirname(resolve(path))
+        );
+      } catch (e) {
+        problems.push(`/chains/${chainId}/contracts/${name}: ${e.message}`);
+      }
+    }
+    if (
+      chain.eip712 &&
+      contracts.Payments &&
+      !contracts.Payments.abi.some(
+        (fragment) =>
+          fragment.type === "function" &&
+          fragment.name === chain.eip712.claimFunction
+      )
+    ) {
+      problems.push(
+        `/chains/${chainId}/eip712/claimFunction: Payments has no function named ` +
+          `${chain.eip712.claimFunction}.`
+      );
+    }
+    chains[chainId] = {
+      name: chain.name,
+      providers: chain.rpc,
+      assets: chain.assets,
+      contracts,
+      expiryTolerance: chain.expiryTolerance,
+      providerIndex: chain.providerIndex,
+      pool: chain.pool,
+      transactions: chain.transactions,
+      rates: chain.rates,
+      prices: chain.prices,
+      eip712: chain.eip712 && {
+        name: "Payments",
+        version: "1",
+        ...chain.eip712,
+      },
+    };
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(path, problems);
+  }
+  return { ...config, chains };
+};
+
+const applyEnvOverrides = (raw: any, env: NodeJS.ProcessEnv) => {
+  for (const [name, path] of Object.entries(ENV_OVERRIDES)) {
+    if (env[name] === undefined || env[name] === "") {
+      continue;
+    }
+    let target = raw;
+    for (const key of path.slice(0, -1)) {
+      target[key] = target[key] ?? {};
+      target = target[key];
+    }
+    target[path[path.length - 1]] = env[name];
+  }
+  for (const [name, value] of Object.entries(env)) {
+    const match = name.match(/^CHAIN_([0-9]+)_RPC$/);
+    if (match && value && raw.chains?.[match[1]]) {
+      raw.chains[match[1]].rpc = value.split(",").map((url) => url.trim());
+    }
+  }
+};
+
+const validate = <T extends TSchema>(
+  schema: T,
+  raw: unknown,
+  path: string
+): Static<T> => {
+  // Env overrides are strings, so convert them to the expected types before checking.
+  const value = Value.Default(schema, Value.Convert(schema, raw));
+  const problems = [...Value.Errors(schema, value)].map(
+    (error) => `${error.path || "/"}: ${error.message}`
+  );
+  if (problems.length > 0) {
+    throw new ConfigError(path, problems);
+  }
+  return value as Static<T>;
+};
+
+const resolveContract = (
+  contract: Static<typeof ContractConfigSchema>,
+  baseDir: string
+): ContractInfo => {
+  let abi = contract.abi;
+  let address = contract.address;
+  if (contract.artifact) {
+    const artifact = JSON.parse(
+      readFileSync(resolve(baseDir, contract.artifact), "utf-8")
+    );
+    abi = abi ?? artifact.abi;
+    address = address ?? artifact.address;
+  }
+  if (!abi) {
+    throw new Error("No ABI found. Specify `abi` or `artifact`.");
+  }
+  if (!address) {
+    throw new Error("No address found. Specify `address` or `artifact`.");
+  }
+  return { abi, address };
+};
@@ -0,0 +1,194 @@
+/**
+ * Errors reported to API clients. Each carries a stable `code` clients can match on, and the
+ * HTTP status it is reported with. Anything else that is thrown is reported as a 500 with code
+ * INTERNAL_ERROR.
+ */
+export class NodeError extends Error {
+  public readonly code: string;
+  public readonly statusCode: number;
+  // Details clients can act on, e.g. the decoded revert or the channel's meter status.
+  public readonly context: any;
+
+  constructor(
+    message: string,
+    code: string,
+    statusCode: number,
+    context: any = {}
+  ) {
+    super(message);
+    this.name = "NodeError";
+    this.code = code;
+    this.statusCode = statusCode;
+    this.context = context;
+  }
+}
+
+// The request is malformed or asks for something the node doesn't support.
+export class ValidationError extends NodeError {
+  constructor(message: string, code = "INVALID_REQUEST", context?: any) {
+    super(message, code, 400, context);
+    this.name = "ValidationError";
+  }
+}
+
+// The request lacks valid credentials.
+export class UnauthorizedError extends NodeError {
+  constructor(message: string, code = "UNAUTHORIZED", context?: any) {
+    super(message, code, 401, context);
+    this.name = "UnauthorizedError";
+  }
+}
+
+// The credentials are valid but don't allow the request.
+export class ForbiddenError extends NodeError {
+  constructor(message: string, code = "FORBIDDEN", context?: any) {
+    super(message, code, 403, context);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends NodeError {
+  constructor(message: string, code = "NOT_FOUND", context?: any) {
+    super(message, code, 404, context);
+    this.name = "NotFoundError";
+  }
+}
+
+// The request clashes with the current state, e.g. a closed channel or a used ID.
+export class ConflictError extends NodeError {
+  constructor(message: string, code = "CONFLICT", context?: any) {
+    super(message, code, 409, context);
+    this.name = "ConflictError";
+  }
+}
+
+// The subscriber hasn't paid or escrowed enough.
+export class PaymentError extends NodeError {
+  constructor(message: string, code = "PAYMENT_REQUIRED", context?: any) {
+    super(message, code, 402, context);
+    this.name = "PaymentError";
+  }
+}
+
+// The node isn't taking this request right now, e.g. because it is retiring.
+export class UnavailableError extends NodeError {
+  constructor(message: string, code = "UNAVAILABLE", context?: any) {
+    super(message, code, 503, context);
+    this.name = "UnavailableError";
+  }
+}
+
+// A chain read or call failed for reasons outside the request, or reverted unexpectedly.
+export class UpstreamChainError extends NodeError {
+  constructor(message: string, code = "CHAIN_ERROR", context?: any) {
+    super(message, code, 502, context);
+    this.name = "UpstreamChainError";
+  }
+}
+
+/**
+ * Thrown when the config file can't be read or doesn't match the schema. The message lists
+ * every problem found, one per line.
+ */
+export class ConfigError extends NodeError {
+  constructor(path: string, problems: string[]) {
+    super(
+      `Invalid config (${path}):\n  ${problems.join("\n  ")}`,
+      "INVALID_CONFIG",
+      500,
+      { path, problems }
+    );
+    this.name = "ConfigError";
+  }
+}
+
+// Custom errors of the Payments contract that say something about the request, rather than
+// the chain. Any other revert is reported as an UpstreamChainError with code CHAIN_REVERT.
+const REVERTS: {
+  [name: string]: (message: string, context: any) => NodeError;
+} = {
+  Payments__claim_invalidSignature: (message, context) =>
+    new ValidationError(message, "INVALID_SIGNATURE", context),
+  Payments__claim_expired: (message, context) =>
+    new ValidationError(message, "EXPIRED", context),
+  Payments__claim_idAlreadyUsed: (message, context) =>
+    new ConflictError(message, "ID_ALREADY_USED", context),
+  Payments__claim_insufficientFundsInAccount: (message, context) =>
+    new PaymentError(message, "INSUFFICIENT_ESCROW", context),
+};
+
+/**
+ * Map the output of `parseOnChainError` (a decoded custom error, or the raw error if it
+ * couldn't be decoded) into the error hierarchy.
+ *
+ * @param error - The decoded or raw on-chain error.
+ * @param message - What was being attempted, used as the error message.
+ * @returns The typed error.
+ */
+export const fromOnChainError = (error: any, message: string): NodeError => {
+  if (error?.name && error?.signature) {
+    const context = {
+      revert: error.name,
+      args: error.args ? Array.from(error.args, String) : [],
+    };
+    const toError = REVERTS[error.name];
+    return toError
+      ? toError(`${message} (${error.name})`, context)
+      : new UpstreamChainError(
+          `${message} (${error.name})`,
+          "CHAIN_REVERT",
+          context
+        );
+  }
+  if (error?.code === "CALL_EXCEPTION") {
+    return new UpstreamChainError(message, "CHAIN_REVERT", {
+      reason: error.reason ?? error.shortMessage,
+    });
+  }
+  return new UpstreamChainError(message, "CHAIN_UNAVAILABLE", {
+    reason: error?.shortMessage ?? error?.message,
+  });
+};
+
+// Error body sent to API clients.
+export type ErrorResponse = {
+  message: string;
+  type: string;
+  code: string;
+  context: any;
+  // Only outside production.
+  stack?: string;
+};
+
+/**
+ * Work out how an error should be reported to a client. Stack traces are only included when
+ * NODE_ENV is "development".
+ *
+ * @param error - The error to report.
+ * @returns The HTTP status code and response body.
+ */
+export const toErrorResponse = (
+  error: any
+): { statusCode: number; body: ErrorResponse } => {
+  let known: NodeError;
+  if (error instanceof NodeError) {
+    known = error;
+  } else if (error?.validation) {
+    // Schema validation failures raised by fastify.
+    known = new ValidationError(error.message, "INVALID_REQUEST", {
+      validation: error.validation,
+    });
+  } else if (error?.statusCode >= 400 && error?.statusCode < 500) {
+    known = new NodeError(error.message, "INVALID_REQUEST", error.statusCode);
+  }
+  return {
+    statusCode: known?.statusCode ?? 500,
+    body: {
+      message: error?.message ?? String(error),
+      type: error?.name ?? "Error",
+      code: known?.code ?? "INTERNAL_ERROR",
+      context: known?.context ?? {},
+      stack: process.env.NODE_ENV === "development" ? error?.stack : undefined,
+    },
+  };
+};
@@ -1,114 +1,467 @@
 import { Static, Type } from "@sinclair/typebox";
-import fastify, { FastifyInstance, FastifyReply } from "fastify";
-import { ProviderNode } from "./ProviderNode.ts";
+import fastify, {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+} from "fastify";
+import websocket from "@fastify/websocket";
+import { ChannelSettings, ProviderNode } from "./ProviderNode.ts";
+import { ChannelStream } from "./ChannelStream.ts";
+import { ChannelStore } from "./ChannelStore.ts";
+import { ChannelCache } from "./ChannelCache.ts";
+import { MemoryChannelStore } from "./MemoryChannelStore.ts";
+import { SqliteChannelStore } from "./SqliteChannelStore.ts";
+import { loadConfig, NodeConfig } from "./config.ts";
+import { verifyReceipt } from "./receipts.ts";
+import { toErrorResponse, ValidationError } from "./errors.ts";
+import { Authenticator } from "./auth.ts";
+import { SessionManager, SessionParams } from "./sessions.ts";
+import { httpDuration, registry, watchProvider } from "./metrics.ts";
+import { logger, withRequest } from "./logging.ts";
+import { randomBytes } from "crypto";
 import * as dotenv from "dotenv";
 
-import SepoliaPayments from "../artifacts/sepolia/Payments.sol/Payments.json" with { type: "json" };
-import SepoliaTestERC20 from "../artifacts/sepolia/TestERC20.sol/TestERC20.json" with { type: "json" };
-import SepoliaSemaphoreHSS from "../artifacts/sepolia/SemaphoreHSS.sol/SemaphoreHSS.json" with { type: "json" };
-
 dotenv.config();
 
 const AdminRequestSchema = Type.Object({
-  adminToken: Type.String(),
+  // Deprecated, see `server.auth.legacyAdminToken`.
+  adminToken: Type.Optional(Type.String()),
   additions: Type.Optional(Type.Any()),
 });
 type AdminRequest = Static<typeof AdminRequestSchema>;
 
+const RetireRequestSchema = Type.Object({
+  // Deprecated, see `server.auth.legacyAdminToken`.
+  adminToken: Type.Optional(Type.String()),
+  // Time to keep accepting updates for (in seconds). Defaults to `channels.retirement.grace`.
+  grace: Type.Optional(Type.Integer({ minimum: 0 })),
+});
+type RetireRequest = Static<typeof RetireRequestSchema>;
+
+const RegisterRequestSchema = Type.Object({
+  // Deprecated, see `server.auth.legacyAdminToken`.
+  adminToken: Type.Optional(Type.String()),
+  // Submit the registration from the provider wallet, which must hold OPERATOR_ROLE.
+  submit: Type.Optional(Type.Boolean()),
+});
+type RegisterRequest = Static<typeof RegisterRequestSchema>;
+
 const ChannelRequestSchema = Type.Object({
   id: Type.String(),
   chainId: Type.Optional(Type.String()),
   subscriberAddress: Type.Optional(Type.String()),
   asset: Type.Optional(Type.String()),
-  amount: Type.String(),
+  // Base units, as a decimal integer.
+  amount: Type.String({ pattern: "^[0-9]+$" }),
   expiry: Type.Number(),
   signature: Type.String(),
+  // Signature scheme of the channel, only read on open. Defaults to "packed".
+  scheme: Type.Optional(
+    Type.Union([Type.Literal("packed"), Type.Literal("eip712")])
+  ),
 });
 type ChannelRequest = Static<typeof ChannelRequestSchema>;
 
-const IdGenRequestSchema = Type.Object({
+// Read from the querystring, as GET bodies are often dropped on the way.
+const IdGenQuerySchema = Type.Object({
   chainId: Type.String(),
   subscriberAddress: Type.String(),
 });
-type IdGenRequest = Static<typeof IdGenRequestSchema>;
+type IdGenQuery = Static<typeof IdGenQuerySchema>;
+
+const ChallengeRequestSchema = Type.Object({
+  chainId: Type.String(),
+  subscriberAddress: Type.String({ pattern: "^0x[0-9a-fA-F]{40}$" }),
+});
+type ChallengeRequest = Static<typeof ChallengeRequestSchema>;
+
+const SessionRequestSchema = Type.Object({
+  nonce: Type.String(),
+  signature: Type.String(),
+  // Index of the subscriber's key in SemaphoreHSS, required with `sessions.registeredKeys`.
+  subscriberIndex: Type.Optional(Type.Integer({ minimum: 0 })),
+});
+type SessionRequest = Static<typeof SessionRequestSchema>;
+
+const ChannelParamsSchema = Type.Object({
+  id: Type.String(),
+});
+type ChannelParams = Static<typeof ChannelParamsSchema>;
 
-type SemaphoreError = {
-  message: string;
-  type: string;
-  context: any;
-  stack?: string;
+const ChainParamsSchema = Type.Object({
+  chainId: Type.String(),
+});
+type ChainParams = Static<typeof ChainParamsSchema>;
+
+const HistoryQuerySchema = Type.Object({
+  iteration: Type.Optional(Type.Integer({ minimum: 1 })),
+});
+type HistoryQuery = Static<typeof HistoryQuerySchema>;
+
+const ChannelListQuerySchema = Type.Object({
+  status: Type.Optional(
+    Type.Union([Type.Literal("open"), Type.Literal("closed")])
+  ),
+  chainId: Type.Optional(Type.String()),
+  asset: Type.Optional(Type.String()),
+  sender: Type.Optional(Type.String()),
+  updatedFrom: Type.Optional(Type.Integer({ minimum: 0 })),
+  updatedTo: Type.Optional(Type.Integer({ minimum: 0 })),
+  cursor: Type.Optional(Type.String()),
+  limit: Type.Integer({ minimum: 1, maximum: 500, default: 100 }),
+});
+type ChannelListQuery = Static<typeof ChannelListQuerySchema>;
+
+const ChainErrorQuerySchema = Type.Object({
+  chainId: Type.Optional(Type.String()),
+  since: Type.Optional(Type.Integer({ minimum: 0 })),
+  limit: Type.Integer({ minimum: 1, maximum: 1000, default: 100 }),
+});
+type ChainErrorQuery = Static<typeof ChainErrorQuerySchema>;
+
+const UsageRequestSchema = Type.Object({
+  requests: Type.Integer({ minimum: 0, default: 0 }),
+  bytes: Type.Integer({ minimum: 0, default: 0 }),
+  seconds: Type.Number({ minimum: 0, default: 0 }),
+});
+type UsageRequest = Static<typeof UsageRequestSchema>;
+
+const VerifyReceiptRequestSchema = Type.Object({
+  receipt: Type.Object({
+    id: Type.String(),
+    provider: Type.String(),
+    iteration: Type.Integer({ minimum: 1 }),
+    amount: Type.String({ pattern: "^[0-9]+$" }),
+    expiry: Type.Number(),
+    signatureHash: Type.String(),
+    signature: Type.String(),
+  }),
+  // Address the receipt must have been issued by. Defaults to the receipt's provider.
+  provider: Type.Optional(Type.String()),
+  // Subscriber signature the receipt should cover.
+  signature: Type.Optional(Type.String()),
+});
+type VerifyReceiptRequest = Static<typeof VerifyReceiptRequestSchema>;
+
+/**
+ * Sends an error to the client, with the status code and error code matching its type.
+ *
+ * @param res - The reply to send the error on.
+ * @param error - The error to report.
+ */
+const sendError = (res: FastifyReply, error: Error) => {
+  const { statusCode, body } = toErrorResponse(error);
+  if (statusCode >= 500) {
+    res.log.error({ err: error, code: body.code }, "Request failed.");
+  } else {
+    res.log.info(
+      { code: body.code, message: body.message },
+      "Request rejected."
+    );
+  }
+  return res.status(statusCode).send(body);
 };
 
-type ServerConfig = {
-  server: {
-    adminToken: string;
-    port: number;
-    host: string;
-  };
-  channels: {
-    ttl: number;
+/**
+ * Instantiates the channel store selected in the config: "redis", "memory" or "sqlite".
+ *
+ * @param config - The node config.
+ * @returns The selected ChannelStore.
+ */
+const createStore = (config: NodeConfig): ChannelStore => {
+  const { store, channels } = config;
+  switch (store.type) {
+    case "redis":
+      return new ChannelCache({
+        host: store.redis.host,
+        port: store.redis.port,
+        retention: channels.history,
+      });
+    case "memory":
+      return new MemoryChannelStore({ retention: channels.history });
+    case "sqlite":
+      return new SqliteChannelStore({
+        path: store.sqlite.path,
+        retention: channels.history,
+      });
+  }
+};
+
+/**
+ * Builds the ProviderNode's channel settings from the config.
+ *
+ * @param config - The node config.
+ * @returns The channel settings.
+ */
+const getChannelSettings = (config: NodeConfig): ChannelSettings => {
+  return {
+    expiryTolerance: config.channels.expiryTolerance,
+    singleActive: config.channels.singleActive,
+    reservationTtl: config.channels.reservations.ttl,
+    requireRegistration: config.channels.requireRegistration,
   };
 };
 
+// Session secret used when none is configured. Sessions don't survive a restart with it.
+const generatedSessionSecret = randomBytes(32).toString("hex");
+
 /**
- * Converts an error into a json-like object.
+ * Builds the subscriber session settings from the config, falling back to a secret generated
+ * on startup.
  *
- * @param error - Error to convert.
- * @returns SemaphoreError object.
+ * @param config - The node config.
+ * @returns The session settings.
  */
-const formatError = (error: Error): SemaphoreError => {
+const getSessionParams = (config: NodeConfig): SessionParams => {
   return {
-    message: error.message,
-    type: error.name,
-    context: {},
-    stack: error.stack,
+    ...config.server.sessions,
+    secret: config.server.sessions.secret ?? generatedSessionSecret,
   };
 };
 
+/**
+ * Starts (or restarts) the node's background tasks with the given config.
+ *
+ * @param config - The node config.
+ * @param provider - The ProviderNode instance.
+ */
+const startBackgroundTasks = (config: NodeConfig, provider: ProviderNode) => {
+  provider.startScheduler(
+    config.channels.scheduler.interval,
+    config.channels.ttl,
+    config.channels.scheduler.expiryMargin
+  );
+  provider.startWithdrawalWatcher(
+    config.channels.withdrawals.interval,
+    config.channels.withdrawals.margin
+  );
+  provider.startReservationSweeper(config.channels.reservations.purgeInterval);
+};
+
 const api = {
   auth: {
     redeem: async (
-      config: ServerConfig,
+      config: NodeConfig,
       provider: ProviderNode,
-      body: AdminRequest,
       res: FastifyReply
     ) => {
-      const { adminToken } = body;
-      if (adminToken !== config.server.adminToken) {
-        return res.status(401).send("Unauthorized to perform this operation.");
-      }
-
-      const numChannelsClosed = await provider.redeemChannels(
-        config.channels.ttl
+      const decisions = await provider.redeemChannels(
+        config.channels.ttl,
+        config.channels.scheduler.expiryMargin
       );
       return res.status(200).send(
         JSON.stringify({
-          closed: numChannelsClosed,
+          closed: decisions.filter((decision) => decision.outcome === "claimed")
+            .length,
+          decisions,
         })
       );
     },
+    retire: async (
+      provider: ProviderNode,
+      drain: (grace?: number) => void,
+      body: RetireRequest,
+      res: FastifyReply
+    ) => {
+      drain(body.grace);
+      return res
+        .status(200)
+        .send(JSON.stringify(provider.getRetirementStatus()));
+    },
+    retirement: async (provider: ProviderNode, res: FastifyReply) => {
+      return res
+        .status(200)
+        .send(JSON.stringify(provider.getRetirementStatus()));
+    },
+    chainErrors: async (
+      provider: ProviderNode,
+      query: ChainErrorQuery,
+      res: FastifyReply
+    ) => {
+      return res
+        .status(200)
+        .send(JSON.stringify({ errors: provider.getChainErrors(query) }));
+    },
+    registrations: async (provider: ProviderNode, res: FastifyReply) => {
+      return res.status(200).send(JSON.stringify(provider.getRegistrations()));
+    },
+    register: async (
+      provider: ProviderNode,
+      params: ChainParams,
+      body: RegisterRequest,
+      res: FastifyReply
+    ) => {
+      try {
+        const request = await provider.prepareRegistration(
+          params.chainId,
+          body.submit ?? false
+        );
+        return res.status(200).send(JSON.stringify(request));
+      } catch (e) {
+        return sendError(res, e);
+      }
+    },
   },
   get: {
+    usage: async (
+      provider: ProviderNode,
+      params: ChannelParams,
+      res: FastifyReply
+    ) => {
+      try {
+        const status = await provider.getMeterStatus(params.id);
+        return res.status(200).send(JSON.stringify(status));
+      } catch (e) {
+        return sendError(res, e);
+      }
+    },
     ping: async (res: FastifyReply) => {
       return res.status(200).send("pong\n");
     },
+    metrics: async (res: FastifyReply) => {
+      return res
+        .status(200)
+        .header("content-type", registry.contentType)
+        .send(await registry.metrics());
+    },
+    rpc: async (provider: ProviderNode, res: FastifyReply) => {
+      return res.status(200).send(JSON.stringify(provider.getRpcStatus()));
+    },
+    scheduler: async (provider: ProviderNode, res: FastifyReply) => {
+      return res
+        .status(200)
+        .send(JSON.stringify(provider.getSchedulerStatus()));
+    },
     uuid: async (
       provider: ProviderNode,
-      body: IdGenRequest,
+      query: IdGenQuery,
       res: FastifyReply
     ) => {
-      const subscriber = body.subscriberAddress;
-      const chainId = body.chainId;
+      const subscriber = query.subscriberAddress;
+      const chainId = query.chainId;
       try {
         const id = await provider.generateId(chainId, subscriber);
         return res.status(200).send(JSON.stringify({ id }));
       } catch (e) {
-        const json = formatError(e);
-        return res.status(500).send(json);
+        return sendError(res, e);
+      }
+    },
+    channel: async (
+      provider: ProviderNode,
+      params: ChannelParams,
+      admin: boolean,
+      res: FastifyReply
+    ) => {
+      try {
+        const channel = await provider.getChannel(params.id, admin);
+        return res.status(200).send(JSON.stringify(channel));
+      } catch (e) {
+        return sendError(res, e);
+      }
+    },
+    channels: async (
+      provider: ProviderNode,
+      query: ChannelListQuery,
+      admin: boolean,
+      res: FastifyReply
+    ) => {
+      try {
+        const page = await provider.listChannels(query, admin);
+        return res.status(200).send(JSON.stringify(page));
+      } catch (e) {
+        return sendError(res, e);
+      }
+    },
+    schema: async (
+      provider: ProviderNode,
+      params: ChainParams,
+      res: FastifyReply
+    ) => {
+      try {
+        const schema = provider.getSignatureSchema(params.chainId);
+        return res.status(200).send(JSON.stringify(schema));
+      } catch (e) {
+        return sendError(res, e);
+      }
+    },
+    history: async (
+      provider: ProviderNode,
+      params: ChannelParams,
+      query: HistoryQuery,
+      admin: boolean,
+      res: FastifyReply
+    ) => {
+      try {
+        const history = await provider.getChannelHistory(
+          params.id,
+          query.iteration
+        );
+        // Signatures are only shown to admins.
+        const states = admin
+          ? history
+          : history.map(({ signature, ...state }) => state);
+        return res
+          .status(200)
+          .send(JSON.stringify({ id: params.id, history: states }));
+      } catch (e) {
+        return sendError(res, e);
       }
     },
   },
   post: {
+    challenge: async (
+      sessions: SessionManager,
+      body: ChallengeRequest,
+      res: FastifyReply
+    ) => {
+      try {
+        const challenge = sessions.createChallenge(
+          body.chainId,
+          body.subscriberAddress
+        );
+        return res.status(200).send(JSON.stringify(challenge));
+      } catch (e) {
+        return sendError(res, e);
+      }
+    },
+    session: async (
+      sessions: SessionManager,
+      body: SessionRequest,
+      res: FastifyReply
+    ) => {
+      try {
+        const result = await sessions.createSession(
+          body.nonce,
+          body.signature,
+          body.subscriberIndex
+        );
+        return res.status(200).send(JSON.stringify(result));
+      } catch (e) {
+        return sendError(res, e);
+      }
+    },
+    usage: async (
+      provider: ProviderNode,
+      params: ChannelParams,
+      body: UsageRequest,
+      res: FastifyReply
+    ) => {
+      try {
+        const status = await provider.recordUsage(params.id, body);
+        return res.status(200).send(JSON.stringify(status));
+      } catch (e) {
+        return sendError(res, e);
+      }
+    },
+    verifyReceipt: async (body: VerifyReceiptRequest, res: FastifyReply) => {
+      try {
+        const { receipt, provider, signature } = body;
+        const result = verifyReceipt(receipt, { provider, signature });
+        return res.status(200).send(JSON.stringify(result));
+      } catch (e) {
+        return sendError(res, e);
+      }
+    },
     open: async (
       provider: ProviderNode,
       body: ChannelRequest,
@@ -123,20 +476,21 @@ const api = {
           amount,
           expiry,
           signature,
+          scheme,
         } = body;
         // All optionals should be specified in order to open a new channel.
         if (!chainId) {
-          throw new Error("Chain ID not specified.");
+          throw new ValidationError("Chain ID not specified.");
         }
         if (!subscriberAddress) {
-          throw new Error("Subscriber address not specified.");
+          throw new ValidationError("Subscriber address not specified.");
         }
         if (!asset) {
-          throw new Error("Asset address not specified.");
+          throw new ValidationError("Asset address not specified.");
         }
 
         // Open the channel using given ProviderNode instance.
-        await provider.openChannel({
+        const result = await provider.openChannel({
           id,
           chainId,
           subscriber: subscriberAddress,
@@ -144,15 +498,11 @@ const api = {
           amount,
           expiry,
           signature,
+          scheme,
         });
-        res.status(200).send(
-          JSON.stringify({
-            id,
-          })
-        );
+        res.status(200).send(JSON.stringify(result));
       } catch (e) {
-        const json = formatError(e);
-        return res.status(500).send(json);
+        return sendError(res, e);
       }
     },
     update: async (
@@ -162,21 +512,16 @@ const api = {
     ) => {
       try {
         const { id, amount, expiry, signature } = body;
-        // Open the channel using given ProviderNode instance.
-        await provider.updateChannel({
+        // Update the channel using given ProviderNode instance.
+        const result = await provider.updateChannel({
           id,
           amount,
           expiry,
           signature,
         });
-        res.status(200).send(
-          JSON.stringify({
-            id,
-          })
-        );
+        res.status(200).send(JSON.stringify(result));
       } catch (e) {
-        const json = formatError(e);
-        return res.status(500).send(json);
+        return sendError(res, e);
       }
     },
   },
@@ -187,72 +532,325 @@ async function main() {
   if (!mnemonic) {
     throw new Error("No mnemonic found. Please define MNEMONIC in .env.");
   }
+  const configPath = process.env.CONFIG_PATH ?? "config.json";
+  let config = loadConfig(configPath);
+  logger.level = config.server.logLevel;
+
+  const store = createStore(config);
+  await store.init();
+
   const provider = new ProviderNode(
     mnemonic,
-    {
-      // TODO: Support for other chains, use a JSON config, etc.
-      "11155111": {
-        providers: ["https://rpc2.sepolia.org"],
-        assets: [SepoliaTestERC20.address],
-        contracts: {
-          Payments: {
-            abi: SepoliaPayments.abi,
-            address: SepoliaPayments.address,
-          },
-          SemaphoreHSS: {
-            abi: SepoliaSemaphoreHSS.abi,
-            address: SepoliaSemaphoreHSS.address,
-          },
+    store,
+    config.chains,
+    getChannelSettings(config),
+    config.transactions
+  );
+  await provider.init();
+  await provider.checkRegistrations();
+  startBackgroundTasks(config, provider);
+
+  const auth = new Authenticator(config.server.auth, config.server.adminToken);
+  const sessions = new SessionManager(provider, getSessionParams(config));
+
+  // Reload the config file on SIGHUP. Chain, channel and auth settings take effect right
+  // away; other server and store settings require a restart.
+  process.on("SIGHUP", () => {
+    let reloaded: NodeConfig;
+    try {
+      reloaded = loadConfig(configPath);
+    } catch (e) {
+      logger.error(
+        { err: e },
+        "Failed to reload config, keeping current config."
+      );
+      return;
+    }
+    if (
+      reloaded.server.host !== config.server.host ||
+      reloaded.server.port !== config.server.port ||
+      JSON.stringify(reloaded.store) !== JSON.stringify(config.store) ||
+      reloaded.transactions.journal !== config.transactions.journal
+    ) {
+      logger.warn(
+        "Server, store and journal settings changes require a restart."
+      );
+    }
+    provider.reconfigure(
+      reloaded.chains,
+      getChannelSettings(reloaded),
+      reloaded.transactions
+    );
+    auth.reconfigure(reloaded.server.auth, reloaded.server.adminToken);
+    sessions.reconfigure(getSessionParams(reloaded));
+    provider.checkRegistrations().catch((e) => {
+      logger.error({ err: e }, "Failed to check provider registration.");
+    });
+    // A retiring node has stopped its background tasks for good.
+    if (provider.getRetirementStatus().phase === "active") {
+      startBackgroundTasks(reloaded, provider);
+    }
+    logger.level = reloaded.server.logLevel;
+    config = reloaded;
+    logger.info({ configPath }, "Reloaded config.");
+  });
+
+  // Clients and proxies may pass their own request ID, otherwise fastify generates one.
+  const server: FastifyInstance = fastify({
+    logger,
+    requestIdHeader: "x-request-id",
+  });
+  // Make the request's logger available to everything called while handling it. Entered again
+  // once the body is parsed, as parsing runs outside the request's async context.
+  server.addHook("onRequest", (req, res, done) => {
+    res.header("x-request-id", req.id);
+    withRequest({ requestId: req.id, log: req.log }, done);
+  });
+  server.addHook("preValidation", (req, _, done) =>
+    withRequest({ requestId: req.id, log: req.log }, done)
+  );
+  // Reports errors not caught by the handlers, e.g. schema validation and auth failures.
+  server.setErrorHandler((error, _, res) => sendError(res, error));
+  // Must be registered before any routes.
+  await server.register(websocket, {
+    options: { maxPayload: config.server.streams.maxPayload },
+  });
+
+  server.get("/ping", (_, res) => api.get.ping(res));
+
+  if (config.server.metrics.enabled) {
+    watchProvider(provider);
+    // Label by route pattern, so each channel ID doesn't get a series of its own.
+    server.addHook("onResponse", async (req, res) => {
+      httpDuration.observe(
+        {
+          method: req.method,
+          route: req.routeOptions.url ?? "unmatched",
+          status: res.statusCode,
         },
-      },
+        res.elapsedTime / 1000
+      );
+    });
+    server.get("/metrics", (_, res) => api.get.metrics(res));
+  }
+
+  server.get("/rpc", (_, res) => api.get.rpc(provider, res));
+
+  server.get("/channels/scheduler", (_, res) =>
+    api.get.scheduler(provider, res)
+  );
+
+  // Routes acting for a subscriber require a session for that subscriber and chain.
+  const bodySession = sessions.guard(
+    (req: FastifyRequest<{ Body: ChannelRequest }>) => ({
+      subscriber: req.body.subscriberAddress,
+      chainId: req.body.chainId,
+    })
+  );
+  const channelSubject = (id: string) =>
+    provider
+      .getChannel(id, false)
+      .then(({ sender, chainId }) => ({ subscriber: sender, chainId }));
+
+  server.post<{ Body: ChallengeRequest }>(
+    "/sessions/challenge",
+    { schema: { body: ChallengeRequestSchema } },
+    async (req, res) => api.post.challenge(sessions, req.body, res)
+  );
+
+  server.post<{ Body: SessionRequest }>(
+    "/sessions",
+    { schema: { body: SessionRequestSchema } },
+    async (req, res) => api.post.session(sessions, req.body, res)
+  );
+
+  server.get<{ Querystring: IdGenQuery }>(
+    "/uuid",
+    {
+      schema: { querystring: IdGenQuerySchema },
+      ...sessions.guard((req: FastifyRequest<{ Querystring: IdGenQuery }>) => ({
+        subscriber: req.query.subscriberAddress,
+        chainId: req.query.chainId,
+      })),
+    },
+    (req, res) => api.get.uuid(provider, req.query, res)
+  );
+
+  server.get<{ Params: ChannelParams; Querystring: HistoryQuery }>(
+    "/channels/:id/history",
+    {
+      schema: { params: ChannelParamsSchema, querystring: HistoryQuerySchema },
     },
-    // Setting expiry tolerance to 2 days. Any new channels being opened must have an expiry
-    // equal or greater to this amount of time.
-    60 * 60 * 48
+    async (req, res) =>
+      api.get.history(
+        provider,
+        req.params,
+        req.query,
+        auth.hasRole(req, "read"),
+        res
+      )
   );
 
-  const config: ServerConfig = {
-    server: {
-      adminToken: process.env.ADMIN_TOKEN,
-      port: parseInt(process.env.PORT),
-      host: process.env.HOST,
+  server.get<{ Params: ChannelParams }>(
+    "/channels/:id/stream",
+    {
+      websocket: true,
+      schema: { params: ChannelParamsSchema },
+      ...sessions.guard((req: FastifyRequest<{ Params: ChannelParams }>) =>
+        channelSubject(req.params.id)
+      ),
     },
-    channels: {
-      // Time-to-live since last update.
-      ttl: 30 * 60, // 30 minutes.
+    (socket, req) =>
+      new ChannelStream(
+        provider,
+        socket,
+        req.params.id,
+        config.server.streams
+      ).start()
+  );
+
+  server.get<{ Params: ChannelParams }>(
+    "/channels/:id/usage",
+    { schema: { params: ChannelParamsSchema } },
+    async (req, res) => api.get.usage(provider, req.params, res)
+  );
+
+  server.post<{ Params: ChannelParams; Body: UsageRequest }>(
+    "/channels/:id/usage",
+    {
+      schema: { params: ChannelParamsSchema, body: UsageRequestSchema },
+      ...auth.guard("operator"),
     },
-  };
-  const server: FastifyInstance = fastify();
+    async (req, res) => api.post.usage(provider, req.params, req.body, res)
+  );
 
-  server.get("/ping", (_, res) => api.get.ping(res));
+  server.get<{ Params: ChainParams }>(
+    "/chains/:chainId/schema",
+    { schema: { params: ChainParamsSchema } },
+    async (req, res) => api.get.schema(provider, req.params, res)
+  );
 
-  server.get<{ Body: IdGenRequest }>("/uuid", (req, res) =>
-    api.get.uuid(provider, req.body, res)
+  // Without the read role, subscribers may only list their own channels.
+  server.get<{ Querystring: ChannelListQuery }>(
+    "/channels",
+    { schema: { querystring: ChannelListQuerySchema } },
+    async (req, res) => {
+      const admin = auth.hasRole(req, "read");
+      const query = admin ? req.query : sessions.scope(req, req.query);
+      return api.get.channels(provider, query, admin, res);
+    }
+  );
+
+  server.get<{ Params: ChannelParams }>(
+    "/channels/:id",
+    { schema: { params: ChannelParamsSchema } },
+    async (req, res) =>
+      api.get.channel(provider, req.params, auth.hasRole(req, "read"), res)
   );
 
   server.post<{ Body: AdminRequest }>(
     "/channels/redeem",
-    { schema: { body: AdminRequestSchema } },
-    async (req, res) => api.auth.redeem(config, provider, req.body, res)
+    { schema: { body: AdminRequestSchema }, ...auth.guard("operator") },
+    async (req, res) => api.auth.redeem(config, provider, res)
+  );
+
+  server.get("/registration", auth.guard("read"), async (_, res) =>
+    api.auth.registrations(provider, res)
+  );
+
+  server.post<{ Params: ChainParams; Body: RegisterRequest }>(
+    "/registration/:chainId",
+    {
+      schema: { params: ChainParamsSchema, body: RegisterRequestSchema },
+      ...auth.guard("admin"),
+    },
+    async (req, res) => api.auth.register(provider, req.params, req.body, res)
+  );
+
+  server.get<{ Querystring: ChainErrorQuery }>(
+    "/errors/chain",
+    {
+      schema: { querystring: ChainErrorQuerySchema },
+      ...auth.guard("operator"),
+    },
+    async (req, res) => api.auth.chainErrors(provider, req.query, res)
   );
 
   server.post<{ Body: ChannelRequest }>(
     "/channels/open",
-    { schema: { body: ChannelRequestSchema } },
+    { schema: { body: ChannelRequestSchema }, ...bodySession },
     async (req, res) => api.post.open(provider, req.body, res)
   );
 
   server.post<{ Body: ChannelRequest }>(
     "/channels/update",
-    { schema: { body: ChannelRequestSchema } },
+    {
+      schema: { body: ChannelRequestSchema },
+      ...sessions.guard((req: FastifyRequest<{ Body: ChannelRequest }>) =>
+        channelSubject(req.body.id)
+      ),
+    },
     async (req, res) => api.post.update(provider, req.body, res)
   );
 
-  const address = await server.listen({
+  server.post<{ Body: VerifyReceiptRequest }>(
+    "/receipts/verify",
+    { schema: { body: VerifyReceiptRequestSchema } },
+    async (req, res) => api.post.verifyReceipt(req.body, res)
+  );
+
+  // Retire the node and claim every open channel, then shut down. Only the first call has
+  // any effect.
+  let draining: Promise<void> | undefined;
+  const drain = (grace?: number) => {
+    draining ??= provider
+      .drain(
+        grace ?? config.channels.retirement.grace,
+        config.channels.retirement.retryInterval,
+        config.channels.retirement.timeout
+      )
+      .then(async () => {
+        await server.close();
+        await store.close();
+        await auth.close();
+        logger.info("Drained, exiting.");
+        process.exit(0);
+      })
+      .catch((e) => {
+        logger.error({ err: e }, "Failed to drain, exiting.");
+        process.exit(1);
+      });
+  };
+
+  server.post<{ Body: RetireRequest }>(
+    "/retire",
+    {
+      schema: { body: RetireRequestSchema },
+      ...auth.guard("admin"),
+    },
+    async (req, res) => api.auth.retire(provider, drain, req.body, res)
+  );
+
+  server.get("/retire", auth.guard("operator"), async (_, res) =>
+    api.auth.retirement(provider, res)
+  );
+
+  // Retire on SIGTERM, and exit once nothing claimable is left. A second SIGTERM exits
+  // straight away. A drain already started through POST /retire carries on.
+  let terminating = false;
+  process.on("SIGTERM", () => {
+    if (terminating) {
+      logger.warn("Received SIGTERM while draining, exiting without draining.");
+      process.exit(1);
+    }
+    terminating = true;
+    drain();
+  });
+
+  await server.listen({
     port: config.server.port,
     host: config.server.host,
   });
-  console.log(`Server listening at ${address}`);
 }
 
 main();
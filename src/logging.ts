@@ -0,0 +1,68 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { FastifyBaseLogger } from "fastify";
+import pino, { Logger } from "pino";
+
+/**
+ * Structured JSON logging. The root logger is shared with fastify, which tags each request's
+ * logs with its ID. Code called while handling a request logs through `log()`, which picks up
+ * that request's logger, so its lines carry the same `reqId` as the route's.
+ */
+
+// Level is set from `server.logLevel` once the config is loaded.
+export const logger: Logger = pino();
+
+type RequestContext = {
+  requestId: string;
+  log: FastifyBaseLogger;
+};
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function, and everything it calls, in the context of a request.
+ * @param context - The request's ID and logger.
+ * @param fn - The function to run.
+ */
+export const withRequest = <T>(context: RequestContext, fn: () => T): T =>
+  requestContext.run(context, fn);
+
+/**
+ * Get the logger of the request being handled, or the root logger outside of requests.
+ */
+export const log = (): FastifyBaseLogger =>
+  requestContext.getStore()?.log ?? logger;
+
+/**
+ * Get the ID of the request being handled, if any.
+ */
+export const getRequestId = (): string | undefined =>
+  requestContext.getStore()?.requestId;
+
+/**
+ * Fixed-size buffer keeping the most recent entries, oldest first.
+ */
+export class RingBuffer<T> {
+  private readonly capacity: number;
+  private readonly entries: T[] = [];
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Add an entry, dropping the oldest one if the buffer is full.
+   */
+  public push(entry: T) {
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.shift();
+    }
+  }
+
+  /**
+   * Get the entries currently kept, oldest first.
+   */
+  public toArray(): T[] {
+    return [...this.entries];
+  }
+}
@@ -0,0 +1,100 @@
+import { parseUnits } from "ethers";
+import { Usage } from "./ChannelStore.ts";
+import { PaymentError } from "./errors.ts";
+
+// Price of service in an asset. Prices are in base units of the asset per unit of usage, as
+// decimal strings; usage with no price set is free.
+export type Price = {
+  request?: string;
+  byte?: string;
+  second?: string;
+  // How far usage may run ahead of the signed amount before service is refused (in base
+  // units). Defaults to 0.
+  creditLimit?: string;
+};
+
+// How a channel's usage compares to what its subscriber has signed for.
+export type MeterStatus = {
+  id: string;
+  usage: Usage;
+  // Value of the usage (in base units of the channel's asset).
+  cost: string;
+  // Latest signed amount.
+  paid: string;
+  // How much the value of the usage exceeds the signed amount. 0 if it doesn't.
+  owed: string;
+  creditLimit: string;
+  // Whether service may continue, i.e. the balance owed is within the credit limit.
+  allowed: boolean;
+};
+
+/**
+ * Thrown when a channel's usage has run past its signed amount by more than the credit limit.
+ * Carries the channel's meter status as its context, so clients know how much to pay.
+ */
+export class PaymentRequiredError extends PaymentError {
+  public readonly meter: MeterStatus;
+
+  constructor(meter: MeterStatus) {
+    super(
+      `Payment required: ${meter.owed} owed on channel ${meter.id} ` +
+        `(credit limit: ${meter.creditLimit}).`,
+      "PAYMENT_REQUIRED",
+      meter
+    );
+    this.name = "PaymentRequiredError";
+    this.meter = meter;
+  }
+}
+
+// Fixed point precision used when pricing usage.
+const DECIMALS = 18;
+
+/**
+ * Work out the value of the given usage, rounding up to whole base units.
+ *
+ * @param usage - The usage to price.
+ * @param price - The price of service in the channel's asset.
+ * @returns The value of the usage (in base units).
+ */
+export const priceUsage = (usage: Usage, price: Price = {}): bigint => {
+  const scale = parseUnits("1", DECIMALS);
+  const cost =
+    BigInt(usage.requests) * parseUnits(price.request ?? "0", DECIMALS) +
+    BigInt(usage.bytes) * parseUnits(price.byte ?? "0", DECIMALS) +
+    // Seconds may be fractional, so keep millisecond precision.
+    (parseUnits(usage.seconds.toFixed(3), 3) *
+      parseUnits(price.second ?? "0", DECIMALS)) /
+      BigInt(1000);
+  return (cost + scale - BigInt(1)) / scale;
+};
+
+/**
+ * Compare a channel's usage against its signed amount.
+ *
+ * @param id - The ID of the channel.
+ * @param usage - Total usage recorded against the channel.
+ * @param paid - The channel's latest signed amount.
+ * @param price - The price of service in the channel's asset.
+ * @returns The channel's meter status.
+ */
+export const getMeterStatus = (
+  id: string,
+  usage: Usage,
+  paid: string,
+  price: Price = {}
+): MeterStatus => {
+  const cost = priceUsage(usage, price);
+  const difference = cost - BigInt(paid);
+  const owed = difference > BigInt(0) ? difference : BigInt(0);
+  const creditLimit = BigInt(price.creditLimit ?? "0");
+  return {
+    id,
+    usage,
+    cost: cost.toString(),
+    paid,
+    owed: owed.toString(),
+    creditLimit: creditLimit.toString(),
+    allowed: owed <= creditLimit,
+  };
+};
@@ -0,0 +1,175 @@
+import { JsonRpcProvider } from "ethers";
+import type { JsonRpcApiProviderOptions, Networkish } from "ethers";
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from "prom-client";
+import type { ProviderNode } from "./ProviderNode.ts";
+
+/**
+ * Prometheus metrics, served in text format on `GET /metrics`. Counters and histograms are
+ * updated as things happen; gauges are read from the node when scraped.
+ */
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+export const channelsOpened = new Counter({
+  name: "provider_channels_opened_total",
+  help: "Channels opened.",
+  labelNames: ["chain", "asset"],
+  registers: [registry],
+});
+
+export const channelsUpdated = new Counter({
+  name: "provider_channels_updated_total",
+  help: "Channel state updates accepted, including streamed ones.",
+  labelNames: ["chain", "asset"],
+  registers: [registry],
+});
+
+export const claimsSucceeded = new Counter({
+  name: "provider_claims_total",
+  help: "Channels claimed on-chain.",
+  labelNames: ["chain", "asset", "reason"],
+  registers: [registry],
+});
+
+export const claimsFailed = new Counter({
+  name: "provider_claims_failed_total",
+  help: "Claims that could not be submitted or reverted.",
+  labelNames: ["chain", "asset", "reason"],
+  registers: [registry],
+});
+
+export const httpDuration = new Histogram({
+  name: "provider_http_request_duration_seconds",
+  help: "HTTP request latency by route.",
+  labelNames: ["method", "route", "status"],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry],
+});
+
+export const rpcDuration = new Histogram({
+  name: "provider_rpc_request_duration_seconds",
+  help: "JSON-RPC request latency by endpoint and method.",
+  labelNames: ["chain", "endpoint", "method", "outcome"],
+  buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry],
+});
+
+export const redeemDuration = new Histogram({
+  name: "provider_redeem_duration_seconds",
+  help: "Duration of redemption cycles, by what triggered them.",
+  labelNames: ["trigger"],
+  buckets: [0.1, 0.5, 1, 5, 15, 30, 60, 120, 300, 600],
+  registers: [registry],
+});
+
+// Node the gauges below are read from.
+let source: ProviderNode | undefined;
+
+/**
+ * Report gauges for the given node on scrape.
+ * @param provider - The node to read open channels and wallet balances from.
+ */
+export const watchProvider = (provider: ProviderNode) => {
+  source = provider;
+};
+
+new Gauge({
+  name: "provider_open_channels",
+  help: "Channels currently open.",
+  labelNames: ["chain", "asset"],
+  registers: [registry],
+  async collect() {
+    this.reset();
+    for (const [chain, assets] of Object.entries(
+      (await source?.getOutstanding()) ?? {}
+    )) {
+      for (const [asset, { channels }] of Object.entries(assets)) {
+        this.set({ chain, asset }, channels);
+      }
+    }
+  },
+});
+
+new Gauge({
+  name: "provider_outstanding_value",
+  help: "Latest signed amount of open channels, not yet claimed (in base units).",
+  labelNames: ["chain", "asset"],
+  registers: [registry],
+  async collect() {
+    this.reset();
+    for (const [chain, assets] of Object.entries(
+      (await source?.getOutstanding()) ?? {}
+    )) {
+      for (const [asset, { amount }] of Object.entries(assets)) {
+        this.set({ chain, asset }, Number(amount));
+      }
+    }
+  },
+});
+
+new Gauge({
+  name: "provider_wallet_balance_wei",
+  help: "Native balance of the provider wallet, used to pay for claims.",
+  labelNames: ["chain"],
+  registers: [registry],
+  async collect() {
+    this.reset();
+    for (const [chain, balance] of Object.entries(
+      (await source?.getGasBalances()) ?? {}
+    )) {
+      this.set({ chain }, Number(balance));
+    }
+  },
+});
+
+/**
+ * A JSON-RPC provider recording the latency of every request it sends. Endpoints are labelled
+ * by host only, as URLs often carry API keys.
+ */
+export class InstrumentedProvider extends JsonRpcProvider {
+  // Host of the endpoint.
+  public readonly endpoint: string;
+  private readonly chain: string;
+
+  constructor(
+    url: string,
+    network: Networkish,
+    options: JsonRpcApiProviderOptions
+  ) {
+    super(url, network, options);
+    let endpoint: string;
+    try {
+      endpoint = new URL(url).host;
+    } catch (e) {
+      endpoint = "unknown";
+    }
+    this.endpoint = endpoint;
+    this.chain = String(network);
+  }
+
+  public async send(
+    method: string,
+    params: Array<any> | Record<string, any>
+  ): Promise<any> {
+    const end = rpcDuration.startTimer({
+      chain: this.chain,
+      endpoint: this.endpoint,
+      method,
+    });
+    try {
+      const result = await super.send(method, params);
+      end({ outcome: "success" });
+      return result;
+    } catch (e) {
+      end({ outcome: "error" });
+      throw e;
+    }
+  }
+}
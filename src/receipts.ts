@@ -0,0 +1,149 @@
+import {
+  getAddress,
+  getBytes,
+  HDNodeWallet,
+  keccak256,
+  solidityPackedKeccak256,
+  verifyMessage,
+} from "ethers";
+
+/**
+ * Receipts are countersigned by the provider for every accepted channel state, so subscribers
+ * can prove which iteration and amount the provider agreed to. The provider signs (as an
+ * EIP-191 personal message) the packed keccak256 digest of:
+ *
+ *   (bytes32 id, address provider, uint256 iteration, uint256 amount, uint256 expiry,
+ *    bytes32 keccak256(subscriber signature))
+ *
+ * Being a personal message, a receipt signature can never be mistaken for a channel state
+ * signature, which is over a raw digest.
+ */
+
+// A provider-countersigned receipt for an accepted channel state.
+export type Receipt = {
+  // Channel ID.
+  id: string;
+  // The provider that issued the receipt.
+  provider: string;
+  // Iteration of the accepted state.
+  iteration: number;
+  // Amount of the accepted state.
+  amount: string;
+  // Signed expiry of the accepted state (in seconds).
+  expiry: number;
+  // keccak256 of the subscriber's signature on the accepted state.
+  signatureHash: string;
+  // The provider's signature on the receipt digest.
+  signature: string;
+};
+
+// The result of checking a receipt.
+export type ReceiptVerification = {
+  valid: boolean;
+  // Address recovered from the receipt signature, if it could be recovered.
+  signer?: string;
+  // Why the receipt is invalid.
+  error?: string;
+};
+
+/**
+ * Compute the digest a receipt's signature is produced over.
+ *
+ * @param receipt - The receipt fields, without the signature.
+ * @returns The packed keccak256 digest.
+ */
+export const getReceiptDigest = ({
+  id,
+  provider,
+  iteration,
+  amount,
+  expiry,
+  signatureHash,
+}: Omit<Receipt, "signature">): string => {
+  return solidityPackedKeccak256(
+    ["bytes32", "address", "uint256", "uint256", "uint256", "bytes32"],
+    [id, provider, iteration, amount, expiry, signatureHash]
+  );
+};
+
+/**
+ * Sign a receipt for an accepted channel state.
+ *
+ * @param wallet - The provider wallet.
+ * @param state - The accepted state, including the subscriber's signature.
+ * @returns The signed receipt.
+ */
+export const signReceipt = (
+  wallet: HDNodeWallet,
+  state: {
+    id: string;
+    iteration: number;
+    amount: string;
+    expiry: number;
+    signature: string;
+  }
+): Receipt => {
+  const fields = {
+    id: state.id,
+    provider: wallet.address,
+    iteration: state.iteration,
+    amount: state.amount,
+    expiry: state.expiry,
+    signatureHash: keccak256(state.signature),
+  };
+  return {
+    ...fields,
+    signature: wallet.signMessageSync(getBytes(getReceiptDigest(fields))),
+  };
+};
+
+/**
+ * Check a receipt offline: the signature must recover to the receipt's provider (or the
+ * expected provider, if given), and the subscriber signature must match the hash, if given.
+ *
+ * @param receipt - The receipt to check.
+ * @param expected.provider - Address the receipt must have been issued by.
+ * @param expected.signature - The subscriber signature the receipt should cover.
+ * @returns Whether the receipt is valid, along with the recovered signer.
+ */
+export const verifyReceipt = (
+  receipt: Receipt,
+  expected: { provider?: string; signature?: string } = {}
+): ReceiptVerification => {
+  let signer: string;
+  let provider: string;
+  let signatureHash: string | undefined;
+  try {
+    const { signature, ...fields } = receipt;
+    signer = verifyMessage(getBytes(getReceiptDigest(fields)), signature);
+    provider = getAddress(expected.provider ?? receipt.provider);
+    signatureHash =
+      expected.signature !== undefined
+        ? keccak256(expected.signature)
+        : undefined;
+  } catch (e) {
+    return {
+      valid: false,
+      error: `Malformed receipt: ${e.shortMessage ?? e.message}`,
+    };
+  }
+
+  if (signer !== provider) {
+    return {
+      valid: false,
+      signer,
+      error: `Receipt was signed by ${signer}, not ${provider}.`,
+    };
+  }
+  if (
+    signatureHash !== undefined &&
+    signatureHash !== receipt.signatureHash.toLowerCase()
+  ) {
+    return {
+      valid: false,
+      signer,
+      error: "Receipt does not cover the given subscriber signature.",
+    };
+  }
+  return { valid: true, signer };
+};
@@ -0,0 +1,316 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { computeAddress, getAddress, verifyMessage } from "ethers";
+import type { FastifyRequest, preHandlerAsyncHookHandler } from "fastify";
+import {
+  NotFoundError,
+  UnauthorizedError,
+  UnavailableError,
+  ValidationError,
+} from "./errors.ts";
+import { ProviderNode } from "./ProviderNode.ts";
+
+/**
+ * Subscribers prove they control their address before they may request a channel ID, open a
+ * channel or update one:
+ *
+ *   1. `POST /sessions/challenge` with `{ chainId, subscriberAddress }` returns a single-use
+ *      nonce and the message to sign.
+ *   2. The subscriber signs the message as an EIP-191 personal message and sends it to
+ *      `POST /sessions` with `{ nonce, signature, subscriberIndex? }`.
+ *   3. The node answers with a short-lived session token, sent back on channel routes in an
+ *      `Authorization: Bearer <token>` header (or a `token` query parameter on streams).
+ *
+ * Tokens are `<payload>.<mac>`, where the payload is the base64url JSON of the session and the
+ * MAC is its HMAC-SHA256 under the node's session secret, so they can be checked without any
+ * lookup. With `registeredKeys` set, the signer must also match the public key registered for
+ * the subscriber in SemaphoreHSS at `subscriberIndex`.
+ */
+
+// Settings for subscriber sessions.
+export type SessionParams = {
+  // Whether channel routes require a session token.
+  required: boolean;
+  // Key session tokens are signed with. Tokens stop verifying when it changes.
+  secret: string;
+  // How long a challenge may be answered for (in seconds).
+  challengeTtl: number;
+  // How long a session token is valid for (in seconds).
+  sessionTtl: number;
+  // Require the signer to match the key registered in SemaphoreHSS.
+  registeredKeys: boolean;
+};
+
+// A challenge for a subscriber to sign.
+export type Challenge = {
+  nonce: string;
+  // The exact message to sign.
+  message: string;
+  // Time after which the challenge can no longer be answered (in seconds).
+  expiresAt: number;
+};
+
+// An authenticated subscriber session, as carried in a token.
+export type Session = {
+  subscriber: string;
+  chainId: string;
+  // Time after which the token is no longer accepted (in seconds).
+  expiresAt: number;
+};
+
+const now = () => Math.floor(new Date().getTime() / 1000);
+
+// Outstanding challenges beyond which new ones are refused.
+const MAX_CHALLENGES = 10000;
+
+export class SessionManager {
+  private readonly provider: ProviderNode;
+  private params: SessionParams;
+  private readonly challenges: Map<
+    string,
+    Challenge & { subscriber: string; chainId: string }
+  > = new Map();
+
+  constructor(provider: ProviderNode, params: SessionParams) {
+    this.provider = provider;
+    this.params = params;
+  }
+
+  /**
+   * Replace the session settings. Tokens signed with a previous secret stop verifying.
+   * @param params - The new session settings.
+   */
+  public reconfigure(params: SessionParams) {
+    this.params = params;
+  }
+
+  /**
+   * Issue a single-use challenge for a subscriber to sign.
+   *
+   * @param chainId - The chain the session is for.
+   * @param subscriber - The address the subscriber claims to control.
+   * @returns The nonce and the message to sign.
+   */
+  public createChallenge(chainId: string, subscriber: string): Challenge {
+    if (!this.provider.isChainSupported(chainId)) {
+      throw new ValidationError("Chain is not supported.", "UNSUPPORTED_CHAIN");
+    }
+    let address: string;
+    try {
+      address = getAddress(subscriber);
+    } catch {
+      throw new ValidationError(
+        "Subscriber address is not a valid address.",
+        "INVALID_ADDRESS"
+      );
+    }
+    for (const [nonce, challenge] of this.challenges) {
+      if (challenge.expiresAt < now()) {
+        this.challenges.delete(nonce);
+      }
+    }
+    if (this.challenges.size >= MAX_CHALLENGES) {
+      throw new UnavailableError(
+        "Too many outstanding challenges. Please retry later."
+      );
+    }
+
+    const nonce = randomBytes(32).toString("hex");
+    const expiresAt = now() + this.params.challengeTtl;
+    const message =
+      `Sign in to provider ${this.provider.getAddress()} on chain ${chainId} as ` +
+      `${address}.\nNonce: ${nonce}\nExpires: ${new Date(expiresAt * 1000).toISOString()}`;
+    this.challenges.set(nonce, {
+      nonce,
+      message,
+      expiresAt,
+      subscriber: address,
+      chainId,
+    });
+    return { nonce, message, expiresAt };
+  }
+
+  /**
+   * Exchange a signed challenge for a session token. Each challenge can only be answered once.
+   *
+   * @param nonce - The challenge nonce.
+   * @param signature - The subscriber's signature on the challenge message.
+   * @param subscriberIndex - The subscriber's index in SemaphoreHSS, required with
+   * `registeredKeys` set.
+   * @returns The session token and the session it carries.
+   */
+  public async createSession(
+    nonce: string,
+    signature: string,
+    subscriberIndex?: number
+  ): Promise<{ token: string; session: Session }> {
+    const challenge = this.challenges.get(nonce);
+    this.challenges.delete(nonce);
+    if (!challenge || challenge.expiresAt < now()) {
+      throw new UnauthorizedError(
+        "Unknown or expired challenge.",
+        "INVALID_CHALLENGE"
+      );
+    }
+
+    let signer: string;
+    try {
+      signer = verifyMessage(challenge.message, signature);
+    } catch (e) {
+      throw new ValidationError(
+        `Malformed signature: ${e.shortMessage ?? e.message}`,
+        "INVALID_SIGNATURE"
+      );
+    }
+    if (signer !== challenge.subscriber) {
+      throw new UnauthorizedError(
+        "Challenge was not signed by the subscriber.",
+        "INVALID_SIGNATURE"
+      );
+    }
+
+    if (this.params.registeredKeys) {
+      if (subscriberIndex === undefined) {
+        throw new ValidationError("Subscriber index not specified.");
+      }
+      const key = await this.provider.getSubscriberKey(
+        challenge.chainId,
+        subscriberIndex
+      );
+      let registered: string;
+      try {
+        registered = computeAddress(key);
+      } catch (e) {
+        throw new UnauthorizedError(
+          "No valid key registered at the given subscriber index.",
+          "INVALID_SIGNATURE"
+        );
+      }
+      if (registered !== signer) {
+        throw new UnauthorizedError(
+          "Challenge was not signed with the subscriber's registered key.",
+          "INVALID_SIGNATURE"
+        );
+      }
+    }
+
+    const session: Session = {
+      subscriber: challenge.subscriber,
+      chainId: challenge.chainId,
+      expiresAt: now() + this.params.sessionTtl,
+    };
+    const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+    return { token: `${payload}.${this.mac(payload)}`, session };
+  }
+
+  /**
+   * Read and check the session token in a request's `Authorization` header, or its `token`
+   * query parameter (for WebSockets, where browsers can't set headers).
+   *
+   * @param req - The incoming request.
+   * @returns The session, undefined if there is no valid, unexpired token.
+   */
+  public authenticate(req: FastifyRequest): Session | undefined {
+    const token =
+      req.headers.authorization?.match(/^Bearer (\S+)$/)?.[1] ??
+      (req.query as { token?: unknown })?.token;
+    if (typeof token !== "string") {
+      return undefined;
+    }
+    const [payload, mac] = token.split(".");
+    if (!payload || !mac) {
+      return undefined;
+    }
+    const expected = Buffer.from(this.mac(payload), "base64url");
+    const presented = Buffer.from(mac, "base64url");
+    if (
+      expected.length !== presented.length ||
+      !timingSafeEqual(expected, presented)
+    ) {
+      return undefined;
+    }
+    const session: Session = JSON.parse(
+      Buffer.from(payload, "base64url").toString()
+    );
+    return session.expiresAt < now() ? undefined : session;
+  }
+
+  /**
+   * Restrict a channel query to the subscriber and chain of the request's session, whatever
+   * the query asked for. Applies whether or not sessions are required for channel routes.
+   *
+   * @param req - The incoming request.
+   * @param query - The query to restrict.
+   * @returns The query, with `sender` and `chainId` set to the session's.
+   */
+  public scope<T extends { sender?: string; chainId?: string }>(
+    req: FastifyRequest,
+    query: T
+  ): T {
+    const session = this.authenticate(req);
+    if (!session) {
+      throw new UnauthorizedError(
+        "An API key with the read role or a valid session token is required.",
+        "SESSION_REQUIRED"
+      );
+    }
+    return { ...query, sender: session.subscriber, chainId: session.chainId };
+  }
+
+  /**
+   * Route hook restricting a route to sessions of the subscriber it acts for. Does nothing
+   * unless sessions are required. Requests without a valid token, or with a token for another
+   * subscriber or chain, get a 401.
+   *
+   * @param subject - Works out the subscriber and chain a request acts for. If it throws a
+   * NotFoundError, the request is passed on so the route can report it. Any other error fails
+   * the request, so it's never let through unchecked.
+   * @returns Hooks to spread into the route options.
+   */
+  public guard(
+    subject: (
+      req: FastifyRequest
+    ) =>
+      | { subscriber?: string; chainId?: string }
+      | Promise<{ subscriber?: string; chainId?: string }>
+  ): { preHandler: preHandlerAsyncHookHandler } {
+    return {
+      preHandler: async (req) => {
+        if (!this.params.required) {
+          return;
+        }
+        const session = this.authenticate(req);
+        if (!session) {
+          throw new UnauthorizedError(
+            "A valid session token is required. Sign a challenge from /sessions/challenge.",
+            "SESSION_REQUIRED"
+          );
+        }
+        let target: { subscriber?: string; chainId?: string };
+        try {
+          target = await subject(req);
+        } catch (e) {
+          if (e instanceof NotFoundError) {
+            return;
+          }
+          throw e;
+        }
+        if (
+          session.subscriber.toLowerCase() !==
+            target.subscriber?.toLowerCase() ||
+          session.chainId !== target.chainId
+        ) {
+          throw new UnauthorizedError(
+            "Session token is for a different subscriber or chain.",
+            "SESSION_MISMATCH"
+          );
+        }
+      },
+    };
+  }
+
+  private mac(payload: string): string {
+    return createHmac("sha256", this.params.secret)
+      .update(payload)
+      .digest("base64url");
+  }
+}
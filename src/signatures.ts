@@ -0,0 +1,108 @@
+import {
+  solidityPackedKeccak256,
+  TypedDataDomain,
+  TypedDataEncoder,
+} from "ethers";
+
+/**
+ * Subscribers sign every channel state over (id, provider, asset, amount, expiry), using the
+ * scheme declared when the channel was opened:
+ *
+ * packed:
+ *   A raw signature over solidityPackedKeccak256(bytes32, address, address, uint256, uint256),
+ *   as verified by `Payments.claim`.
+ *
+ * eip712:
+ *   An EIP-712 typed-data signature over a `ChannelState` struct, with a domain bound to the
+ *   chain ID and the `Payments` address. Claimed through the chain's configured typed claim
+ *   function, which takes the same arguments as `claim`.
+ */
+
+export type SignatureScheme = "packed" | "eip712";
+
+// EIP-712 settings for a chain's Payments contract.
+export type TypedDataParams = {
+  // Domain name and version, as set in the contract.
+  name: string;
+  version: string;
+  // Payments function that claims states signed as typed data.
+  claimFunction: string;
+};
+
+// The signed fields of a channel state.
+export type StateFields = {
+  id: string;
+  provider: string;
+  asset: string;
+  amount: string;
+  expiry: number;
+};
+
+// Solidity types of the packed digest, in order.
+export const PACKED_STATE_TYPES = [
+  "bytes32",
+  "address",
+  "address",
+  "uint256",
+  "uint256",
+];
+
+// EIP-712 types of a channel state.
+export const CHANNEL_STATE_TYPES = {
+  ChannelState: [
+    { name: "id", type: "bytes32" },
+    { name: "provider", type: "address" },
+    { name: "asset", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
+/**
+ * Build the EIP-712 domain for channel states on a chain.
+ *
+ * @param chainId - The chain the channel is redeemed on.
+ * @param payments - Address of the chain's Payments contract.
+ * @param params - The chain's EIP-712 settings.
+ * @returns The typed-data domain.
+ */
+export const getTypedDataDomain = (
+  chainId: string,
+  payments: string,
+  params: TypedDataParams
+): TypedDataDomain => {
+  return {
+    name: params.name,
+    version: params.version,
+    chainId: +chainId,
+    verifyingContract: payments,
+  };
+};
+
+/**
+ * Derive the digest a subscriber signs for a channel state.
+ *
+ * @param scheme - The channel's signature scheme.
+ * @param state - The signed fields.
+ * @param domain - The typed-data domain. Required for "eip712".
+ * @returns The digest, ready for `recoverAddress`.
+ */
+export const getStateDigest = (
+  scheme: SignatureScheme,
+  state: StateFields,
+  domain?: TypedDataDomain
+): string => {
+  if (scheme === "eip712") {
+    if (!domain) {
+      throw new Error("Typed-data domain not specified.");
+    }
+    return TypedDataEncoder.hash(domain, CHANNEL_STATE_TYPES, state);
+  }
+  return solidityPackedKeccak256(PACKED_STATE_TYPES, [
+    state.id,
+    state.provider,
+    state.asset,
+    state.amount,
+    state.expiry,
+  ]);
+};
@@ -7,6 +7,7 @@ import {
   JsonRpcProvider,
   Contract,
   ErrorFragment,
+  computeAddress,
   recoverAddress,
   solidityPackedKeccak256,
 } from "ethers";
@@ -58,9 +59,29 @@ async function main() {
     ? new Contract((SemaphoreHSS as any).address, SemaphoreHSS.abi, operator)
     : await deployContract(SemaphoreHSS, [operator.address], operator);
 
-  // TODO: Ensure provider is registered with HSS.
-  // const res = await SemaphoreHSSContract.getProviderKey(0);
-  // console.log(res);
+  // Ensure provider is registered with HSS.
+  {
+    // Look for the provider's key among the registered ones.
+    let providerIndex = -1;
+    const next = await SemaphoreHSSContract.nextProviderId();
+    for (let i = 0; i < Number(next); i++) {
+      const key = await SemaphoreHSSContract.getProviderKey(i);
+      if (key !== "0x" && computeAddress(key) === provider.address) {
+        providerIndex = i;
+        break;
+      }
+    }
+    if (providerIndex >= 0) {
+      console.log("Provider index:", providerIndex);
+    } else {
+      const res = await SemaphoreHSSContract.addProviderAndKey(
+        provider.address,
+        provider.signingKey.publicKey
+      );
+      const receipt = await res.wait();
+      console.log("Register provider tx:", receipt.hash);
+    }
+  }
   // TODO: Ensure subscriber is registered with HSS.
 
   // Mint tokens for subscriber.
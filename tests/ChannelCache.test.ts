@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import RedisMock from "ioredis-mock";
+import { ChannelCache } from "../src/ChannelCache.ts";
+import { Channel } from "../src/ChannelStore.ts";
+import { bytes32, channel, createNode, escrow, TestNode } from "./helpers.ts";
+
+/**
+ * Migration from the legacy Redis layout, run against an in-process Redis stand-in. The rest of
+ * the store is covered by the conformance suite in ChannelStore.test.ts, which needs a real
+ * Redis server.
+ */
+
+// A channel as the legacy layout stored it.
+const legacyChannel = (id: string): Channel => {
+  const { amount, expiry, signature, ...header } = channel(id);
+  return {
+    ...header,
+    state: { timestamp: 1700000000, iteration: 3, amount, expiry, signature },
+  };
+};
+
+describe("ChannelCache migration", () => {
+  let redis: InstanceType<typeof RedisMock>;
+  let cache: ChannelCache;
+  let testNode: TestNode | undefined;
+
+  beforeEach(async () => {
+    cache = new ChannelCache({ host: "127.0.0.1", port: 6379 });
+    (cache as any).data.disconnect();
+    redis = new RedisMock();
+    await redis.flushall();
+    (cache as any).data = redis;
+  });
+
+  afterEach(() => {
+    testNode?.stop();
+    testNode = undefined;
+  });
+
+  // Store channels in the legacy layout, optionally with a closed list.
+  const seed = async (ids: string[], closed?: string[]) => {
+    for (const id of ids) {
+      await redis.hset(
+        "channels:channel",
+        id,
+        JSON.stringify(legacyChannel(id))
+      );
+    }
+    if (closed) {
+      await redis.hset("channels:list", "closed", JSON.stringify(closed));
+    }
+  };
+
+  test("keeps channels listed as closed closed", async () => {
+    await seed([bytes32(1), bytes32(2)], [bytes32(1)]);
+
+    assert.equal(await cache.migrate(), 2);
+    assert.deepEqual(await cache.getClosedChannels(), [bytes32(1)]);
+    assert.deepEqual(await cache.getUnverifiedChannels(), [bytes32(2)]);
+    assert.deepEqual(await cache.getOpenChannels(), []);
+    assert.deepEqual(
+      await cache.getChannel(bytes32(2)),
+      legacyChannel(bytes32(2))
+    );
+    assert.deepEqual(
+      (await cache.getChannelHistory(bytes32(2))).map(
+        ({ iteration }) => iteration
+      ),
+      [3]
+    );
+  });
+
+  test("leaves channels unverified without a closed list", async () => {
+    await seed([bytes32(1), bytes32(2)]);
+
+    assert.equal(await cache.migrate(), 2);
+    assert.deepEqual(await cache.getOpenChannels(), []);
+    assert.deepEqual((await cache.getUnverifiedChannels()).sort(), [
+      bytes32(1),
+      bytes32(2),
+    ]);
+    assert.deepEqual(
+      (await cache.findChannels({ sender: channel(bytes32(1)).sender })).sort(),
+      [bytes32(1), bytes32(2)]
+    );
+  });
+
+  test("only migrates once", async () => {
+    await seed([bytes32(1)]);
+
+    assert.equal(await cache.migrate(), 1);
+    assert.equal(await redis.exists("channels:list"), 0);
+    await seed([bytes32(2)]);
+    assert.equal(await cache.migrate(), 0);
+  });
+
+  test("opens or closes unverified channels by whether their ID was used", async () => {
+    await seed([bytes32(1), bytes32(2), bytes32(3)]);
+    await cache.migrate();
+    // Channel 1 was claimed, channel 2 wasn't, channel 3 can't be checked yet.
+    let reachable = false;
+    testNode = createNode(
+      {
+        Payments: escrow("1000", {
+          isIdUsed: (sender: string, id: string) =>
+            id === bytes32(3) && !reachable ? undefined : id === bytes32(1),
+        }),
+      },
+      { channels: { singleActive: "off" }, store: cache }
+    );
+    const { node } = testNode;
+
+    await node.init();
+    assert.deepEqual(await cache.getClosedChannels(), [bytes32(1)]);
+    assert.deepEqual(await cache.getOpenChannels(), [bytes32(2)]);
+    assert.deepEqual(await cache.getUnverifiedChannels(), [bytes32(3)]);
+
+    // Checked again on the next redemption cycle.
+    reachable = true;
+    await node.redeemChannels(Number.MAX_SAFE_INTEGER);
+    assert.deepEqual((await cache.getOpenChannels()).sort(), [
+      bytes32(2),
+      bytes32(3),
+    ]);
+    assert.deepEqual(await cache.getUnverifiedChannels(), []);
+  });
+});
@@ -0,0 +1,435 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, mock, test } from "node:test";
+import { ChannelCache } from "../src/ChannelCache.ts";
+import {
+  ChannelStore,
+  HistoryRetention,
+  InsertChannelParams,
+} from "../src/ChannelStore.ts";
+import { MemoryChannelStore } from "../src/MemoryChannelStore.ts";
+import { SqliteChannelStore } from "../src/SqliteChannelStore.ts";
+import { logger } from "../src/logging.ts";
+
+/**
+ * Conformance suite run against every ChannelStore implementation. The Redis store runs
+ * against the server at TEST_REDIS_HOST (and TEST_REDIS_PORT, default 6379) if set. The
+ * server is flushed before each test, so never point it at a live one.
+ */
+
+logger.level = "silent";
+
+type StoreFactory = {
+  name: string;
+  create: (retention?: HistoryRetention) => Promise<ChannelStore>;
+  // Reason to skip the store, if it can't run here.
+  skip?: string;
+  // Whether the store expires reservations on its own rather than on purge.
+  expiresReservations?: boolean;
+};
+
+const factories: StoreFactory[] = [
+  {
+    name: "MemoryChannelStore",
+    create: async (retention) => new MemoryChannelStore({ retention }),
+  },
+  {
+    name: "SqliteChannelStore",
+    create: async (retention) =>
+      new SqliteChannelStore({ path: ":memory:", retention }),
+  },
+  {
+    name: "ChannelCache",
+    create: async (retention) => {
+      const store = new ChannelCache({
+        host: process.env.TEST_REDIS_HOST,
+        port: Number(process.env.TEST_REDIS_PORT ?? 6379),
+        retention,
+      });
+      await (store as any).clear();
+      return store;
+    },
+    skip: process.env.TEST_REDIS_HOST ? undefined : "TEST_REDIS_HOST not set",
+    expiresReservations: true,
+  },
+];
+
+const SUBSCRIBER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const PROVIDER = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+const ASSET = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const OTHER_ASSET = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+
+const channel = (
+  id: string,
+  params: Partial<InsertChannelParams> = {}
+): InsertChannelParams => ({
+  id,
+  chainId: "11155111",
+  sender: SUBSCRIBER,
+  receiver: PROVIDER,
+  asset: ASSET,
+  amount: "1",
+  expiry: 2000000000,
+  signature: "0x01",
+  ...params,
+});
+
+const update = (id: string, amount: string, iteration?: number) => ({
+  id,
+  amount,
+  expiry: 2000000000,
+  signature: `0x${amount}`,
+  iteration,
+});
+
+const sorted = (ids: string[]) => [...ids].sort();
+
+for (const factory of factories) {
+  describe(factory.name, { skip: factory.skip }, () => {
+    let store: ChannelStore | undefined;
+
+    const open = async (retention?: HistoryRetention) => {
+      store = await factory.create(retention);
+      await store.init();
+      return store;
+    };
+
+    afterEach(async () => {
+      mock.timers.reset();
+      await store?.close();
+      store = undefined;
+    });
+
+    describe("inserts and updates", () => {
+      test("inserts an open channel with its initial state", async () => {
+        const store = await open();
+        assert.equal(await store.insertChannel(channel("a")), 1);
+
+        const stored = await store.getChannel("a");
+        assert.equal(stored.sender, SUBSCRIBER);
+        assert.equal(stored.state.iteration, 1);
+        assert.equal(stored.state.amount, "1");
+        assert.deepEqual(await store.getOpenChannels(), ["a"]);
+        assert.deepEqual(
+          (await store.getChannelHistory("a")).map((state) => state.amount),
+          ["1"]
+        );
+      });
+
+      test("refuses to insert an existing channel", async () => {
+        const store = await open();
+        await store.insertChannel(channel("a"));
+        await assert.rejects(
+          store.insertChannel(channel("a", { amount: "2" })),
+          {
+            code: "CHANNEL_EXISTS",
+          }
+        );
+        assert.equal((await store.getChannel("a")).state.amount, "1");
+      });
+
+      test("lets exactly one of concurrent inserts through", async () => {
+        const store = await open();
+        const results = await Promise.allSettled(
+          ["1", "2", "3"].map((amount) =>
+            store.insertChannel(channel("a", { amount }))
+          )
+        );
+        const inserted = results.filter(
+          (result) => result.status === "fulfilled"
+        );
+        assert.equal(inserted.length, 1);
+        for (const result of results) {
+          if (result.status === "rejected") {
+            assert.equal(result.reason.code, "CHANNEL_EXISTS");
+          }
+        }
+        assert.equal((await store.getChannelHistory("a")).length, 1);
+      });
+
+      test("increments the iteration and appends to the history", async () => {
+        const store = await open();
+        await store.insertChannel(channel("a"));
+        await store.updateChannel(update("a", "2"));
+        await store.updateChannel(update("a", "3", 3));
+
+        const stored = await store.getChannel("a");
+        assert.equal(stored.state.iteration, 3);
+        assert.equal(stored.state.amount, "3");
+        assert.deepEqual(
+          (await store.getChannelHistory("a")).map((state) => state.iteration),
+          [1, 2, 3]
+        );
+        assert.equal((await store.getChannelStateAt("a", 2)).amount, "2");
+      });
+
+      test("lets exactly one of concurrent updates to an iteration through", async () => {
+        const store = await open();
+        await store.insertChannel(channel("a"));
+        const results = await Promise.allSettled(
+          ["2", "3", "4"].map((amount) =>
+            store.updateChannel(update("a", amount, 2))
+          )
+        );
+        const updated = results.filter(
+          (result) => result.status === "fulfilled"
+        );
+        assert.equal(updated.length, 1);
+        for (const result of results) {
+          if (result.status === "rejected") {
+            assert.equal(result.reason.code, "CONCURRENT_UPDATE");
+          }
+        }
+        assert.equal((await store.getChannel("a")).state.iteration, 2);
+        assert.equal((await store.getChannelHistory("a")).length, 2);
+      });
+
+      test("refuses an update for an unexpected iteration", async () => {
+        const store = await open();
+        await store.insertChannel(channel("a"));
+        await assert.rejects(store.updateChannel(update("a", "2", 3)), {
+          code: "CONCURRENT_UPDATE",
+        });
+        assert.equal((await store.getChannel("a")).state.iteration, 1);
+      });
+
+      test("refuses to update a missing or closed channel", async () => {
+        const store = await open();
+        await assert.rejects(store.updateChannel(update("a", "2")), {
+          code: "CHANNEL_NOT_FOUND",
+        });
+        await store.insertChannel(channel("a"));
+        assert.equal(await store.closeChannels(["a"]), true);
+        await assert.rejects(store.updateChannel(update("a", "2", 2)), {
+          code: "CHANNEL_CLOSED",
+        });
+        assert.deepEqual(await store.getOpenChannels(), []);
+        assert.deepEqual(await store.getClosedChannels(), ["a"]);
+      });
+
+      test("reports channels that were not open on close", async () => {
+        const store = await open();
+        await store.insertChannel(channel("a"));
+        await store.insertChannel(channel("b"));
+        assert.equal(await store.closeChannels(["a"]), true);
+        assert.equal(await store.closeChannels(["a", "b"]), false);
+        assert.equal(await store.closeChannels(["missing"]), false);
+        assert.deepEqual(sorted(await store.getClosedChannels()), ["a", "b"]);
+      });
+
+      test("records claims", async () => {
+        const store = await open();
+        assert.equal(await store.getClaimRecord("a"), undefined);
+        const record = {
+          id: "a",
+          reason: "expiry" as const,
+          detail: "Expiring.",
+          timestamp: 1000,
+        };
+        await store.recordClaim(record);
+        await store.recordClaim({ ...record, reason: "idle" });
+        assert.deepEqual(await store.getClaimRecord("a"), {
+          ...record,
+          reason: "idle",
+        });
+      });
+    });
+
+    describe("history retention", () => {
+      test("keeps at most maxEntries states", async () => {
+        const store = await open({ maxEntries: 2 });
+        await store.insertChannel(channel("a"));
+        for (const amount of ["2", "3", "4"]) {
+          await store.updateChannel(update("a", amount));
+        }
+        assert.deepEqual(
+          (await store.getChannelHistory("a")).map((state) => state.iteration),
+          [3, 4]
+        );
+        assert.equal(await store.getChannelStateAt("a", 1), undefined);
+        assert.equal((await store.getChannelStateAt("a", 4)).amount, "4");
+      });
+
+      test("drops states older than maxAge", async () => {
+        mock.timers.enable({ apis: ["Date"], now: 1000000 * 1000 });
+        const store = await open({ maxAge: 150 });
+        await store.insertChannel(channel("a"));
+        mock.timers.tick(100 * 1000);
+        await store.updateChannel(update("a", "2"));
+        mock.timers.tick(100 * 1000);
+        await store.updateChannel(update("a", "3"));
+        assert.deepEqual(
+          (await store.getChannelHistory("a")).map((state) => state.iteration),
+          [2, 3]
+        );
+      });
+
+      test("always keeps the latest state", async () => {
+        mock.timers.enable({ apis: ["Date"], now: 1000000 * 1000 });
+        const store = await open({ maxEntries: 1, maxAge: 10 });
+        await store.insertChannel(channel("a"));
+        mock.timers.tick(100 * 1000);
+        await store.updateChannel(update("a", "2"));
+        assert.deepEqual(
+          (await store.getChannelHistory("a")).map((state) => state.iteration),
+          [2]
+        );
+      });
+    });
+
+    describe("filter indexes", () => {
+      const seed = async (store: ChannelStore) => {
+        await store.insertChannel(channel("a"));
+        await store.insertChannel(channel("b", { asset: OTHER_ASSET }));
+        await store.insertChannel(channel("c", { chainId: "1" }));
+        await store.insertChannel(channel("d", { sender: PROVIDER }));
+        await store.closeChannels(["b"]);
+      };
+
+      test("finds channels by status, chain, asset and sender", async () => {
+        const store = await open();
+        await seed(store);
+        assert.deepEqual(sorted(await store.findChannels({})), [
+          "a",
+          "b",
+          "c",
+          "d",
+        ]);
+        assert.deepEqual(sorted(await store.findChannels({ status: "open" })), [
+          "a",
+          "c",
+          "d",
+        ]);
+        assert.deepEqual(await store.findChannels({ status: "closed" }), ["b"]);
+        assert.deepEqual(await store.findChannels({ chainId: "1" }), ["c"]);
+        assert.deepEqual(await store.findChannels({ asset: OTHER_ASSET }), [
+          "b",
+        ]);
+        assert.deepEqual(await store.findChannels({ sender: PROVIDER }), ["d"]);
+      });
+
+      test("combines filters", async () => {
+        const store = await open();
+        await seed(store);
+        assert.deepEqual(
+          sorted(
+            await store.findChannels({
+              status: "open",
+              chainId: "11155111",
+              sender: SUBSCRIBER,
+            })
+          ),
+          ["a"]
+        );
+        assert.deepEqual(
+          await store.findChannels({ status: "open", asset: OTHER_ASSET }),
+          []
+        );
+      });
+
+      test("matches addresses case-insensitively", async () => {
+        const store = await open();
+        await seed(store);
+        assert.deepEqual(
+          sorted(
+            await store.findChannels({ sender: SUBSCRIBER.toLowerCase() })
+          ),
+          ["a", "b", "c"]
+        );
+        assert.deepEqual(
+          await store.findChannels({
+            asset: `0x${OTHER_ASSET.slice(2).toUpperCase()}`,
+          }),
+          ["b"]
+        );
+      });
+
+      test("finds channels by last update, least recent first", async () => {
+        mock.timers.enable({ apis: ["Date"], now: 1000000 * 1000 });
+        const store = await open();
+        await store.insertChannel(channel("a"));
+        mock.timers.tick(10 * 1000);
+        await store.insertChannel(channel("b"));
+        mock.timers.tick(10 * 1000);
+        await store.updateChannel(update("a", "2"));
+
+        assert.deepEqual(
+          await store.getChannelsUpdatedBetween(1000000, 1000020),
+          ["b", "a"]
+        );
+        assert.deepEqual(
+          await store.getChannelsUpdatedBetween(1000000, 1000010),
+          ["b"]
+        );
+      });
+    });
+
+    describe("usage", () => {
+      test("starts at zero and accumulates", async () => {
+        const store = await open();
+        assert.deepEqual(await store.getUsage("a"), {
+          requests: 0,
+          bytes: 0,
+          seconds: 0,
+        });
+        await store.recordUsage("a", { requests: 1, bytes: 100, seconds: 0.5 });
+        assert.deepEqual(
+          await store.recordUsage("a", { requests: 2, bytes: 50, seconds: 1 }),
+          { requests: 3, bytes: 150, seconds: 1.5 }
+        );
+        assert.deepEqual(await store.getUsage("a"), {
+          requests: 3,
+          bytes: 150,
+          seconds: 1.5,
+        });
+        assert.equal((await store.getUsage("b")).requests, 0);
+      });
+
+      test("doesn't lose concurrent additions", async () => {
+        const store = await open();
+        await Promise.all(
+          Array.from({ length: 10 }, () =>
+            store.recordUsage("a", { requests: 1, bytes: 10, seconds: 0 })
+          )
+        );
+        assert.deepEqual(await store.getUsage("a"), {
+          requests: 10,
+          bytes: 100,
+          seconds: 0,
+        });
+      });
+    });
+
+    describe("reservations", () => {
+      const now = () => Math.floor(new Date().getTime() / 1000);
+      const reservation = (id: string, expiresAt: number) => ({
+        id,
+        chainId: "11155111",
+        subscriber: SUBSCRIBER,
+        expiresAt,
+      });
+
+      test("stores, replaces and releases reservations", async () => {
+        const store = await open();
+        assert.equal(await store.getReservation("a"), undefined);
+        await store.reserveId(reservation("a", now() + 600));
+        await store.reserveId(reservation("a", now() + 1200));
+        assert.equal((await store.getReservation("a")).expiresAt, now() + 1200);
+        assert.equal(await store.releaseReservation("a"), true);
+        assert.equal(await store.releaseReservation("a"), false);
+        assert.equal(await store.getReservation("a"), undefined);
+      });
+
+      test("purges expired reservations only", async () => {
+        const store = await open();
+        await store.reserveId(reservation("live", now() + 600));
+        await store.reserveId(reservation("expired", now() - 10));
+        const purged = await store.purgeReservations(now());
+        assert.ok(await store.getReservation("live"));
+        if (!factory.expiresReservations) {
+          assert.equal(purged, 1);
+          assert.equal(await store.getReservation("expired"), undefined);
+        }
+      });
+    });
+  });
+}
@@ -0,0 +1,763 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, test } from "node:test";
+import { HDNodeWallet } from "ethers";
+import { redeemDuration } from "../src/metrics.ts";
+import {
+  ASSET,
+  bytes32,
+  CHAIN_ID,
+  channel,
+  createNode,
+  escrow,
+  MNEMONIC,
+  now,
+  openChannel,
+  OTHER_SUBSCRIBER,
+  OTHER_SUBSCRIBER_WALLET,
+  signState,
+  SUBSCRIBER,
+  SUBSCRIBER_WALLET,
+  subscribers,
+  TestNode,
+} from "./helpers.ts";
+
+// Number of redemption cycles timed for the given trigger.
+const timedCycles = async (trigger: string) =>
+  (await redeemDuration.get()).values.find(
+    ({ metricName, labels }) =>
+      metricName === "provider_redeem_duration_seconds_count" &&
+      labels.trigger === trigger
+  )?.value ?? 0;
+
+describe("ProviderNode", () => {
+  let testNode: TestNode | undefined;
+
+  afterEach(() => {
+    testNode?.stop();
+    testNode = undefined;
+  });
+
+  describe("signatures", () => {
+    const WEEK = 60 * 60 * 24 * 7;
+
+    test("opens channels signed by the subscriber", async () => {
+      testNode = createNode({
+        Payments: escrow("1000"),
+        SemaphoreHSS: subscribers(),
+      });
+      const { node, store } = testNode;
+
+      const { id, receipt } = await openChannel(node);
+      assert.equal(receipt.iteration, 1);
+      assert.deepEqual(await store.getOpenChannels(), [id]);
+    });
+
+    test("refuses to open channels signed by anyone else", async () => {
+      testNode = createNode({
+        Payments: escrow("1000"),
+        SemaphoreHSS: subscribers(),
+      });
+      const { node, store } = testNode;
+      const id = await node.generateId(CHAIN_ID, SUBSCRIBER);
+      const state = { id, amount: "100", expiry: now() + WEEK };
+
+      for (const signature of [
+        signState(state, OTHER_SUBSCRIBER_WALLET),
+        signState({ ...state, amount: "99" }),
+        "0x1234",
+      ]) {
+        await assert.rejects(
+          node.openChannel({
+            ...state,
+            chainId: CHAIN_ID,
+            subscriber: SUBSCRIBER,
+            asset: ASSET,
+            signature,
+          }),
+          { code: "INVALID_SIGNATURE" }
+        );
+      }
+      assert.deepEqual(await store.getOpenChannels(), []);
+    });
+
+    test("refuses updates signed by anyone else", async () => {
+      testNode = createNode({
+        Payments: escrow("1000"),
+        SemaphoreHSS: subscribers(),
+      });
+      const { node, store } = testNode;
+      const { id } = await openChannel(node);
+      const state = { id, amount: "200", expiry: now() + WEEK };
+
+      await assert.rejects(
+        node.updateChannel({
+          ...state,
+          signature: signState(state, OTHER_SUBSCRIBER_WALLET),
+        }),
+        { code: "INVALID_SIGNATURE" }
+      );
+      await assert.rejects(node.updateChannel(state), {
+        code: "INVALID_REQUEST",
+      });
+      assert.equal((await store.getChannel(id)).state.iteration, 1);
+
+      const { receipt } = await node.updateChannel({
+        ...state,
+        signature: signState(state),
+      });
+      assert.equal(receipt.iteration, 2);
+    });
+
+    test("rejects amounts that aren't integers in base units", async () => {
+      testNode = createNode({
+        Payments: escrow("1000"),
+        SemaphoreHSS: subscribers(),
+      });
+      const { node } = testNode;
+      const { id } = await openChannel(node);
+
+      for (const amount of ["abc", "1e3", "-1", "1.5", ""]) {
+        const state = { id, amount, expiry: now() + WEEK };
+        await assert.rejects(
+          node.updateChannel({ ...state, signature: "0x1234" }),
+          { code: "INVALID_AMOUNT", statusCode: 400 }
+        );
+      }
+    });
+  });
+
+  describe("escrow", () => {
+    const WEEK = 60 * 60 * 24 * 7;
+
+    test("refuses amounts beyond the escrow balance", async () => {
+      testNode = createNode({
+        Payments: escrow("1000"),
+        SemaphoreHSS: subscribers(),
+      });
+      const { node } = testNode;
+
+      await assert.rejects(openChannel(node, { amount: "1001" }), {
+        code: "INSUFFICIENT_ESCROW",
+        statusCode: 402,
+      });
+      await openChannel(node, { amount: "1000" });
+    });
+
+    test("counts what other open channels already pledge", async () => {
+      testNode = createNode(
+        { Payments: escrow("1000"), SemaphoreHSS: subscribers() },
+        { channels: { singleActive: "off" } }
+      );
+      const { node, store } = testNode;
+      const { id } = await openChannel(node, { amount: "600" });
+
+      await assert.rejects(openChannel(node, { amount: "500" }), {
+        code: "INSUFFICIENT_ESCROW",
+      });
+      await openChannel(node, { amount: "400" });
+
+      // The channel's own amount is replaced by the update, the other one still counts.
+      const state = { id, amount: "601", expiry: now() + WEEK };
+      await assert.rejects(
+        node.updateChannel({ ...state, signature: signState(state) }),
+        { code: "INSUFFICIENT_ESCROW" }
+      );
+
+      // Closed channels no longer pledge anything.
+      await store.closeChannels([id]);
+      await openChannel(node, { amount: "600" });
+    });
+
+    test("refuses new pledges while a withdrawal is pending", async () => {
+      let requestedAt = 0;
+      testNode = createNode(
+        {
+          Payments: escrow("1000", {
+            checkWithdrawalRequest: () => BigInt(requestedAt),
+          }),
+          SemaphoreHSS: subscribers(),
+        },
+        { channels: { singleActive: "off" } }
+      );
+      const { node } = testNode;
+      const { id } = await openChannel(node);
+      requestedAt = now();
+
+      await assert.rejects(openChannel(node), { code: "WITHDRAWAL_PENDING" });
+      const state = { id, amount: "200", expiry: now() + WEEK };
+      await assert.rejects(
+        node.updateChannel({ ...state, signature: signState(state) }),
+        { code: "WITHDRAWAL_PENDING", statusCode: 402 }
+      );
+    });
+  });
+
+  describe("reservations", () => {
+    const WEEK = 60 * 60 * 24 * 7;
+
+    // Open a channel with the given ID, signed by the default subscriber.
+    const openWithId = (node: TestNode["node"], id: string) => {
+      const state = { id, amount: "100", expiry: now() + WEEK };
+      return node.openChannel({
+        ...state,
+        chainId: CHAIN_ID,
+        subscriber: SUBSCRIBER,
+        asset: ASSET,
+        signature: signState(state),
+      });
+    };
+
+    test("refuses IDs that were never reserved", async () => {
+      testNode = createNode({
+        Payments: escrow("1000"),
+        SemaphoreHSS: subscribers(),
+      });
+
+      await assert.rejects(openWithId(testNode.node, bytes32(1)), {
+        code: "ID_NOT_RESERVED",
+        statusCode: 400,
+      });
+    });
+
+    test("refuses IDs reserved for another subscriber", async () => {
+      testNode = createNode({
+        Payments: escrow("1000"),
+        SemaphoreHSS: subscribers(),
+      });
+      const { node } = testNode;
+      const id = await node.generateId(CHAIN_ID, OTHER_SUBSCRIBER);
+
+      await assert.rejects(openWithId(node, id), { code: "ID_NOT_RESERVED" });
+    });
+
+    test("refuses IDs whose reservation expired", async () => {
+      testNode = createNode({
+        Payments: escrow("1000"),
+        SemaphoreHSS: subscribers(),
+      });
+      const { node, store } = testNode;
+      const id = await node.generateId(CHAIN_ID, SUBSCRIBER);
+      (store as any).reservations.get(id).expiresAt = now() - 1;
+
+      await assert.rejects(openWithId(node, id), { code: "ID_NOT_RESERVED" });
+    });
+
+    test("refuses IDs already used on-chain", async () => {
+      let used = false;
+      testNode = createNode({
+        Payments: escrow("1000", { isIdUsed: () => used }),
+        SemaphoreHSS: subscribers(),
+      });
+      const { node } = testNode;
+      const id = await node.generateId(CHAIN_ID, SUBSCRIBER);
+      used = true;
+
+      await assert.rejects(openWithId(node, id), {
+        code: "ID_ALREADY_USED",
+        statusCode: 409,
+      });
+    });
+
+    test("releases the reservation once the channel is open", async () => {
+      testNode = createNode(
+        { Payments: escrow("1000"), SemaphoreHSS: subscribers() },
+        { channels: { singleActive: "off" } }
+      );
+      const { node, store } = testNode;
+      const id = await node.generateId(CHAIN_ID, SUBSCRIBER);
+      await openWithId(node, id);
+
+      assert.equal(await store.getReservation(id), undefined);
+      await assert.rejects(openWithId(node, id), { code: "ID_NOT_RESERVED" });
+    });
+  });
+
+  describe("singleActive", () => {
+    test("rejects a second channel for the same chain and asset", async () => {
+      testNode = createNode(
+        { Payments: escrow("1000"), SemaphoreHSS: subscribers() },
+        { channels: { singleActive: "reject" } }
+      );
+      const { node } = testNode;
+      const { id } = await openChannel(node);
+
+      await assert.rejects(openChannel(node), {
+        code: "CHANNEL_ALREADY_OPEN",
+        statusCode: 409,
+        context: { channel: id },
+      });
+      await openChannel(node, { wallet: OTHER_SUBSCRIBER_WALLET });
+    });
+
+    test("claims replaced channels, also after a restart", async () => {
+      testNode = createNode(
+        { Payments: escrow("1000"), SemaphoreHSS: subscribers() },
+        { channels: { singleActive: "replace" } }
+      );
+      const { store } = testNode;
+      const { id: previous } = await openChannel(testNode.node);
+      // Last updated before the channel replacing it was opened.
+      (store as any).channels.get(previous).state.timestamp = now() - 60;
+      const { id: current } = await openChannel(testNode.node);
+      testNode.stop();
+
+      testNode = createNode(
+        { Payments: escrow("1000"), SemaphoreHSS: subscribers() },
+        { channels: { singleActive: "replace" }, store }
+      );
+      const decisions = await testNode.node.redeemChannels(60 * 60, 60 * 5);
+      assert.deepEqual(
+        decisions.map(({ id, reason, outcome }) => [id, reason, outcome]),
+        [[previous, "superseded", "claimed"]]
+      );
+      assert.equal(
+        (await store.getClaimRecord(previous)).detail,
+        `Superseded by channel ${current}.`
+      );
+      assert.deepEqual(await store.getOpenChannels(), [current]);
+    });
+
+    test("keeps every channel open when off", async () => {
+      testNode = createNode(
+        { Payments: escrow("1000"), SemaphoreHSS: subscribers() },
+        { channels: { singleActive: "off" } }
+      );
+      const { node, store } = testNode;
+      await openChannel(node);
+      await openChannel(node);
+
+      assert.deepEqual(await node.redeemChannels(60 * 60, 60 * 5), []);
+      assert.equal((await store.getOpenChannels()).length, 2);
+    });
+  });
+
+  describe("registration", () => {
+    const PROVIDER_WALLET = HDNodeWallet.fromPhrase(MNEMONIC);
+
+    // Matches the refusal for a registration with the given status.
+    const notRegistered =
+      (status: string) => (e: { code: string; context: any }) =>
+        e.code === "PROVIDER_NOT_REGISTERED" && e.context.status === status;
+
+    // SemaphoreHSS with the given provider keys registered.
+    const registry = (keys: string[]) => ({
+      ...subscribers(),
+      nextProviderId: () => BigInt(keys.length),
+      getProviderKey: (index: bigint) => keys[Number(index)],
+    });
+
+    test("refuses channels on chains it isn't registered on", async () => {
+      testNode = createNode(
+        {
+          Payments: escrow("1000"),
+          SemaphoreHSS: registry([SUBSCRIBER_WALLET.publicKey]),
+        },
+        { channels: { requireRegistration: true } }
+      );
+      const { node } = testNode;
+
+      await assert.rejects(
+        node.generateId(CHAIN_ID, SUBSCRIBER),
+        notRegistered("unregistered")
+      );
+      await assert.rejects(openChannel(node), {
+        code: "PROVIDER_NOT_REGISTERED",
+        statusCode: 503,
+      });
+    });
+
+    test("refuses channels while the registration can't be checked", async () => {
+      testNode = createNode(
+        { Payments: escrow("1000"), SemaphoreHSS: subscribers() },
+        { channels: { requireRegistration: true } }
+      );
+
+      await assert.rejects(
+        testNode.node.generateId(CHAIN_ID, SUBSCRIBER),
+        notRegistered("unknown")
+      );
+    });
+
+    test("refuses channels when providerIndex holds another key", async () => {
+      testNode = createNode(
+        {
+          Payments: escrow("1000"),
+          SemaphoreHSS: registry([
+            PROVIDER_WALLET.publicKey,
+            SUBSCRIBER_WALLET.publicKey,
+          ]),
+        },
+        { chain: { providerIndex: 1 }, channels: { requireRegistration: true } }
+      );
+
+      await assert.rejects(
+        testNode.node.generateId(CHAIN_ID, SUBSCRIBER),
+        notRegistered("mismatch")
+      );
+    });
+
+    test("opens channels once registered", async () => {
+      testNode = createNode(
+        {
+          Payments: escrow("1000"),
+          SemaphoreHSS: registry([
+            SUBSCRIBER_WALLET.publicKey,
+            PROVIDER_WALLET.publicKey,
+          ]),
+        },
+        { channels: { requireRegistration: true } }
+      );
+      const { node } = testNode;
+
+      await openChannel(node);
+      assert.equal(node.getRegistrations()[CHAIN_ID].providerIndex, 1);
+    });
+  });
+
+  describe("retirement", () => {
+    const WEEK = 60 * 60 * 24 * 7;
+
+    test("refuses new channels and claims every open one", async () => {
+      testNode = createNode({
+        Payments: escrow("1000"),
+        SemaphoreHSS: subscribers(),
+      });
+      const { node, store, submissions } = testNode;
+      const { id } = await openChannel(node);
+      const expiry = now() - 60;
+      await store.insertChannel(channel(bytes32(1), { expiry }));
+      assert.equal(node.getRetirementStatus().phase, "active");
+
+      const status = await node.drain(0, 0, 60);
+      assert.equal(status.phase, "drained");
+      assert.deepEqual(status.claimed, [id]);
+      assert.deepEqual(status.remaining, []);
+      assert.deepEqual(status.unclaimable, [
+        { id: bytes32(1), detail: `Expired at ${expiry}.` },
+      ]);
+      assert.equal(submissions.length, 1);
+      assert.deepEqual(await store.getOpenChannels(), [bytes32(1)]);
+      await assert.rejects(openChannel(node), {
+        code: "RETIRED",
+        statusCode: 503,
+      });
+    });
+
+    test("accepts updates until the grace period ends", async () => {
+      testNode = createNode({
+        Payments: escrow("1000"),
+        SemaphoreHSS: subscribers(),
+      });
+      const { node, store } = testNode;
+      const { id } = await openChannel(node);
+
+      const drained = node.drain(0.2, 0, 60);
+      assert.equal(node.drain(0.2, 0, 60), drained);
+      assert.equal(node.getRetirementStatus().phase, "grace");
+      await assert.rejects(openChannel(node), { code: "RETIRED" });
+      const state = { id, amount: "200", expiry: now() + WEEK };
+      await node.updateChannel({ ...state, signature: signState(state) });
+
+      assert.equal((await drained).phase, "drained");
+      assert.equal((await store.getClaimRecord(id)).reason, "retirement");
+    });
+
+    test("closes channels whose claim confirmed since", async () => {
+      testNode = createNode(
+        {},
+        {
+          estimateGas: () => ({
+            name: "Payments__claim_idAlreadyUsed",
+            signature: "Payments__claim_idAlreadyUsed()",
+          }),
+        }
+      );
+      const { node, store, submissions } = testNode;
+      await store.insertChannel(channel(bytes32(1)));
+
+      const status = await node.drain(0, 0, 60);
+      assert.deepEqual(status.claimed, [bytes32(1)]);
+      assert.deepEqual(status.unclaimable, []);
+      assert.deepEqual(submissions, []);
+      assert.deepEqual(await store.getClosedChannels(), [bytes32(1)]);
+    });
+
+    test("gives up on channels whose chain stays unreachable", async () => {
+      testNode = createNode(
+        {},
+        { estimateGas: () => new Error("connect ECONNREFUSED") }
+      );
+      const { node, store, submissions, failSubmissions } = testNode;
+      await store.insertChannel(channel(bytes32(1)));
+      failSubmissions("claim");
+
+      const status = await node.drain(0, 0.1, 1);
+      assert.equal(status.phase, "drained");
+      assert.ok(status.rounds > 0);
+      assert.ok(submissions.length > 0);
+      assert.deepEqual(status.claimed, []);
+      assert.deepEqual(status.unclaimable, [
+        {
+          id: bytes32(1),
+          detail:
+            "Not claimed within 1s. Channel state is not claimable on-chain.",
+        },
+      ]);
+      assert.deepEqual(await store.getOpenChannels(), [bytes32(1)]);
+    });
+  });
+
+  describe("listChannels", () => {
+    test("pages through matching channels with totals across all of them", async () => {
+      testNode = createNode();
+      const { node, store } = testNode;
+      for (const n of [1, 2, 3]) {
+        await store.insertChannel(channel(bytes32(n), { amount: `${n}00` }));
+      }
+      await store.insertChannel(
+        channel(bytes32(4), { sender: OTHER_SUBSCRIBER })
+      );
+      await store.closeChannels([bytes32(1)]);
+
+      const first = await node.listChannels(
+        { sender: SUBSCRIBER, limit: 2 },
+        false
+      );
+      assert.deepEqual(
+        first.channels.map(({ id }) => id),
+        [bytes32(1), bytes32(2)]
+      );
+      assert.deepEqual(first.totals, {
+        count: 3,
+        open: 2,
+        closed: 1,
+        amounts: { [CHAIN_ID]: { [ASSET.toLowerCase()]: "600" } },
+      });
+      const second = await node.listChannels(
+        { sender: SUBSCRIBER, limit: 2, cursor: first.nextCursor },
+        false
+      );
+      assert.deepEqual(
+        second.channels.map(({ id }) => id),
+        [bytes32(3)]
+      );
+      assert.equal(second.nextCursor, undefined);
+    });
+
+    test("only sums amounts for up to 1000 channels", async () => {
+      testNode = createNode();
+      const { node, store } = testNode;
+      for (let n = 1; n <= 1001; n++) {
+        await store.insertChannel(channel(bytes32(n)));
+      }
+
+      const { channels, totals } = await node.listChannels(
+        { limit: 10 },
+        false
+      );
+      assert.equal(channels.length, 10);
+      assert.deepEqual(totals, { count: 1001, open: 1001, closed: 0 });
+    });
+  });
+
+  describe("redeemChannels", () => {
+    test("claims channels nearing expiry", async () => {
+      testNode = createNode();
+      const { node, store, submissions } = testNode;
+      await store.insertChannel(channel(bytes32(1), { expiry: now() + 60 }));
+      await store.insertChannel(channel(bytes32(2)));
+
+      const decisions = await node.redeemChannels(60 * 60, 60 * 5);
+      assert.deepEqual(
+        decisions.map(({ id, reason, outcome }) => [id, reason, outcome]),
+        [[bytes32(1), "expiry", "claimed"]]
+      );
+      assert.equal(submissions.length, 1);
+      assert.deepEqual(await store.getOpenChannels(), [bytes32(2)]);
+    });
+
+    test("closes expired channels without claiming them", async () => {
+      testNode = createNode();
+      const { node, store, submissions } = testNode;
+      await store.insertChannel(channel(bytes32(1), { expiry: now() - 60 }));
+
+      const decisions = await node.redeemChannels(60 * 60, 60 * 5);
+      assert.deepEqual(
+        decisions.map(({ id, outcome }) => [id, outcome]),
+        [[bytes32(1), "unclaimable"]]
+      );
+      assert.deepEqual(submissions, []);
+      assert.deepEqual(await store.getClosedChannels(), [bytes32(1)]);
+      assert.equal((await store.getClaimRecord(bytes32(1))).reason, "expired");
+
+      // Nothing is left to retry on the next cycle.
+      assert.deepEqual(await node.redeemChannels(60 * 60, 60 * 5), []);
+    });
+
+    test("leaves channels open on chains that are no longer configured", async () => {
+      testNode = createNode();
+      const { node, store, submissions } = testNode;
+      await store.insertChannel(channel(bytes32(1), { expiry: now() + 60 }));
+      node.reconfigure({});
+
+      const decisions = await node.redeemChannels(60 * 60, 60 * 5);
+      assert.deepEqual(
+        decisions.map(({ id, outcome, detail }) => [id, outcome, detail]),
+        [[bytes32(1), "skipped", `Chain ${CHAIN_ID} is not configured.`]]
+      );
+      assert.equal(await node.claimBeforeWithdrawals(60 * 60), 0);
+      assert.deepEqual(submissions, []);
+      assert.deepEqual(await store.getOpenChannels(), [bytes32(1)]);
+    });
+  });
+
+  describe("assessing claims", () => {
+    test("defers idle channels worth less than their claim", async () => {
+      testNode = createNode({}, { chain: { rates: { [ASSET]: "0.5" } } });
+      const { node, store, submissions } = testNode;
+      (node as any).transactions.estimateCost = async () => BigInt(1000);
+      await store.insertChannel(channel(bytes32(1), { amount: "1000" }));
+      await store.insertChannel(channel(bytes32(2), { amount: "4000" }));
+
+      const decisions = await node.redeemChannels(-1);
+      assert.deepEqual(
+        decisions.map(({ id, outcome, value }) => [id, outcome, value]),
+        [
+          [bytes32(1), "deferred", "500"],
+          [bytes32(2), "claimed", "2000"],
+        ]
+      );
+      assert.equal(submissions.length, 1);
+    });
+
+    test("claims regardless of cost if the rate can't be applied", async () => {
+      // More decimals than the config allows.
+      testNode = createNode(
+        {},
+        { chain: { rates: { [ASSET]: "0.0000000000000000001" } } }
+      );
+      const { node, store, submissions } = testNode;
+      (node as any).transactions.estimateCost = async () => BigInt(1000);
+      await store.insertChannel(channel(bytes32(1)));
+      await store.insertChannel(channel(bytes32(2)));
+
+      const decisions = await node.redeemChannels(-1);
+      assert.deepEqual(
+        decisions.map(({ outcome }) => outcome),
+        ["claimed", "claimed"]
+      );
+      assert.equal(submissions.length, 2);
+      assert.equal((node as any).claimsInFlight.size, 0);
+    });
+  });
+
+  describe("claimBeforeWithdrawals", () => {
+    const WAIT_PERIOD = 60 * 60 * 24;
+    const MARGIN = 60 * 60;
+
+    // Mock Payments contract where each subscriber requested a withdrawal at the given time.
+    // Subscribers mapped to undefined can't be read.
+    const withdrawals = (requestedAt: { [subscriber: string]: number }) => ({
+      checkWithdrawalRequest: (subscriber: string, asset: string) => {
+        assert.equal(asset, ASSET);
+        const at = requestedAt[subscriber];
+        return at === undefined ? undefined : BigInt(at);
+      },
+      withdrawalWaitPeriod: () => BigInt(WAIT_PERIOD),
+    });
+
+    test("claims channels whose withdrawal unlocks within the margin", async () => {
+      testNode = createNode({
+        Payments: withdrawals({
+          [SUBSCRIBER]: now() - WAIT_PERIOD + MARGIN / 2,
+        }),
+      });
+      const { node, store, submissions } = testNode;
+      await store.insertChannel(channel(bytes32(1)));
+      await store.insertChannel(channel(bytes32(2), { amount: "5" }));
+
+      assert.equal(await node.claimBeforeWithdrawals(MARGIN), 2);
+      assert.deepEqual(
+        submissions.map(({ functionName, args }) => [functionName, args[0]]),
+        [
+          ["claim", bytes32(1)],
+          ["claim", bytes32(2)],
+        ]
+      );
+      assert.deepEqual(await store.getOpenChannels(), []);
+      assert.equal(
+        (await store.getClaimRecord(bytes32(1))).reason,
+        "withdrawal"
+      );
+    });
+
+    test("leaves channels alone while the withdrawal is outside the margin", async () => {
+      testNode = createNode({
+        Payments: withdrawals({
+          [SUBSCRIBER]: now() - WAIT_PERIOD + MARGIN * 2,
+        }),
+      });
+      const { node, store, submissions } = testNode;
+      await store.insertChannel(channel(bytes32(1)));
+
+      assert.equal(await node.claimBeforeWithdrawals(MARGIN), 0);
+      assert.deepEqual(submissions, []);
+      assert.deepEqual(await store.getOpenChannels(), [bytes32(1)]);
+    });
+
+    test("leaves channels alone without a withdrawal request", async () => {
+      testNode = createNode({ Payments: withdrawals({ [SUBSCRIBER]: 0 }) });
+      const { node, store, submissions } = testNode;
+      await store.insertChannel(channel(bytes32(1)));
+
+      assert.equal(await node.claimBeforeWithdrawals(MARGIN), 0);
+      assert.deepEqual(submissions, []);
+    });
+
+    test("skips accounts whose withdrawal request can't be read", async () => {
+      testNode = createNode({
+        Payments: withdrawals({
+          [SUBSCRIBER]: undefined,
+          [OTHER_SUBSCRIBER]: now() - WAIT_PERIOD,
+        }),
+      });
+      const { node, store, submissions } = testNode;
+      await store.insertChannel(channel(bytes32(1)));
+      await store.insertChannel(
+        channel(bytes32(2), { sender: OTHER_SUBSCRIBER })
+      );
+
+      assert.equal(await node.claimBeforeWithdrawals(MARGIN), 1);
+      assert.deepEqual(
+        submissions.map(({ args }) => args[0]),
+        [bytes32(2)]
+      );
+      assert.deepEqual(await store.getOpenChannels(), [bytes32(1)]);
+    });
+
+    test("keeps channels open when their claim fails", async () => {
+      testNode = createNode({
+        Payments: withdrawals({ [SUBSCRIBER]: now() - WAIT_PERIOD }),
+      });
+      const { node, store, failSubmissions } = testNode;
+      failSubmissions("claim");
+      await store.insertChannel(channel(bytes32(1)));
+
+      assert.equal(await node.claimBeforeWithdrawals(MARGIN), 0);
+      assert.deepEqual(await store.getOpenChannels(), [bytes32(1)]);
+      assert.equal(await store.getClaimRecord(bytes32(1)), undefined);
+    });
+
+    test("times cycles that fail", async () => {
+      testNode = createNode();
+      const { node, store } = testNode;
+      store.getOpenChannels = async () => {
+        throw new Error("Store is unreachable.");
+      };
+      const before = await timedCycles("withdrawal");
+
+      await assert.rejects(node.claimBeforeWithdrawals(MARGIN));
+      assert.equal(await timedCycles("withdrawal"), before + 1);
+    });
+  });
+});
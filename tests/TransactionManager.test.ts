@@ -0,0 +1,447 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import { Transaction, Wallet, parseUnits } from "ethers";
+import { FeePolicy, TransactionManager } from "../src/TransactionManager.ts";
+import { MNEMONIC, PAYMENTS } from "./helpers.ts";
+
+const CHAIN_ID = "31337";
+const wallet = Wallet.fromPhrase(MNEMONIC);
+
+/**
+ * Stands in for a local devnet's JSON-RPC endpoint: keeps a mempool of signed transactions,
+ * and mines the highest paying transaction for each nonce, in nonce order.
+ */
+class Devnet {
+  // Whether transactions are mined as soon as they are broadcast.
+  public automine = true;
+  // Called after each accepted broadcast.
+  public onBroadcast?: (tx: Transaction) => void;
+  public fees = {
+    maxFeePerGas: parseUnits("10", "gwei"),
+    maxPriorityFeePerGas: parseUnits("1", "gwei"),
+  };
+  // Every transaction accepted, in order.
+  public readonly broadcasts: Transaction[] = [];
+  // Number of calls left to fail, by method.
+  public readonly failures: { [method: string]: number } = {};
+  private readonly mempool: Map<number, Transaction> = new Map();
+  private readonly receipts: Map<string, { block: number; status: number }> =
+    new Map();
+  private nonce = 0;
+  private block = 0;
+
+  /**
+   * Mine pending transactions from the wallet, in nonce order.
+   * @param status - Status of the mined transactions' receipts.
+   */
+  public mine(status = 1) {
+    this.block++;
+    while (this.mempool.has(this.nonce)) {
+      this.receipts.set(this.mempool.get(this.nonce).hash, {
+        block: this.block,
+        status,
+      });
+      this.mempool.delete(this.nonce);
+      this.nonce++;
+    }
+  }
+
+  /**
+   * Drop every pending transaction from the mempool, as nodes do under load.
+   */
+  public drop() {
+    this.mempool.clear();
+  }
+
+  /**
+   * Use up the wallet's next nonce with a transaction sent outside the manager.
+   */
+  public sendOutOfBand() {
+    this.mempool.delete(this.nonce);
+    this.nonce++;
+    this.block++;
+  }
+
+  // JSON-RPC provider methods used by the manager.
+
+  public async broadcastTransaction(raw: string) {
+    this.maybeFail("broadcastTransaction");
+    const tx = Transaction.from(raw);
+    if (
+      this.receipts.has(tx.hash) ||
+      this.mempool.get(tx.nonce)?.hash === tx.hash
+    ) {
+      throw new Error("already known");
+    }
+    if (tx.nonce < this.nonce) {
+      throw new Error("nonce too low");
+    }
+    const pending = this.mempool.get(tx.nonce);
+    if (pending && tx.maxFeePerGas <= pending.maxFeePerGas) {
+      throw new Error("replacement transaction underpriced");
+    }
+    this.mempool.set(tx.nonce, tx);
+    this.broadcasts.push(tx);
+    this.onBroadcast?.(tx);
+    if (this.automine) {
+      this.mine();
+    }
+  }
+
+  public async getTransactionCount(address: string, tag: string) {
+    this.maybeFail("getTransactionCount");
+    assert.equal(address, wallet.address);
+    let count = this.nonce;
+    while (tag === "pending" && this.mempool.has(count)) {
+      count++;
+    }
+    return count;
+  }
+
+  public async getTransactionReceipt(hash: string) {
+    this.maybeFail("getTransactionReceipt");
+    const receipt = this.receipts.get(hash);
+    if (!receipt) {
+      return null;
+    }
+    return {
+      hash,
+      status: receipt.status,
+      confirmations: async () => {
+        this.maybeFail("confirmations");
+        return this.block - receipt.block + 1;
+      },
+    };
+  }
+
+  public async getFeeData() {
+    return this.fees;
+  }
+
+  public async estimateGas() {
+    return BigInt(100000);
+  }
+
+  public _getConnection() {
+    return { url: "devnet" };
+  }
+
+  private maybeFail(method: string) {
+    if (this.failures[method] > 0) {
+      this.failures[method]--;
+      throw new Error(`${method} failed`);
+    }
+  }
+}
+
+const POLICY: FeePolicy = {
+  maxFeePerGas: 20,
+  maxPriorityFeePerGas: 2,
+  bumpPercent: 15,
+  stuckAfter: 60,
+  maxPending: 60 * 60,
+  confirmations: 1,
+  pollInterval: 0,
+};
+
+// Calldata of a distinct claim for each n.
+const call = (n: number) =>
+  `0x${n.toString(16).padStart(8, "0")}${"00".repeat(32)}`;
+
+describe("TransactionManager", () => {
+  let dir: string;
+  let devnet: Devnet;
+  let policy: FeePolicy;
+
+  const createManager = () =>
+    new TransactionManager(
+      wallet,
+      join(dir, "transactions.json"),
+      () => [devnet as any],
+      () => policy
+    );
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "transactions-"));
+    devnet = new Devnet();
+    policy = { ...POLICY };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("nonces", () => {
+    test("allocates distinct, consecutive nonces to concurrent submits", async () => {
+      const manager = createManager();
+      await manager.init();
+      const receipts = await Promise.all(
+        [1, 2, 3, 4].map((n) =>
+          manager.submit(CHAIN_ID, PAYMENTS.address, call(n), `channel-${n}`)
+        )
+      );
+
+      assert.deepEqual(
+        devnet.broadcasts.map((tx) => tx.nonce),
+        [0, 1, 2, 3]
+      );
+      assert.deepEqual(
+        receipts.map((receipt) => receipt.hash),
+        devnet.broadcasts.map((tx) => tx.hash)
+      );
+      assert.deepEqual(manager.getPending(), []);
+    });
+
+    test("starts from the chain's pending nonce", async () => {
+      devnet.sendOutOfBand();
+      devnet.sendOutOfBand();
+      const manager = createManager();
+      await manager.init();
+      await manager.submit(CHAIN_ID, PAYMENTS.address, call(1));
+      assert.equal(devnet.broadcasts[0].nonce, 2);
+    });
+
+    test("resyncs and retries when the nonce was taken outside the manager", async () => {
+      const manager = createManager();
+      await manager.init();
+      await manager.submit(CHAIN_ID, PAYMENTS.address, call(1));
+      devnet.sendOutOfBand();
+
+      await manager.submit(CHAIN_ID, PAYMENTS.address, call(2));
+      await manager.submit(CHAIN_ID, PAYMENTS.address, call(3));
+      assert.deepEqual(
+        devnet.broadcasts.map((tx) => tx.nonce),
+        [0, 2, 3]
+      );
+    });
+
+    test("fails a pending transaction whose nonce was taken, then resyncs", async () => {
+      devnet.automine = false;
+      const manager = createManager();
+      await manager.init();
+      const pending = manager.submit(CHAIN_ID, PAYMENTS.address, call(1), "a");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      devnet.sendOutOfBand();
+
+      await assert.rejects(pending, /was used by another transaction/);
+      assert.equal(manager.hasPending("a"), false);
+      devnet.automine = true;
+      await manager.submit(CHAIN_ID, PAYMENTS.address, call(2));
+      assert.equal(devnet.broadcasts.at(-1).nonce, 1);
+    });
+  });
+
+  describe("fees", () => {
+    test("caps fees at the policy", async () => {
+      devnet.fees = {
+        maxFeePerGas: parseUnits("500", "gwei"),
+        maxPriorityFeePerGas: parseUnits("50", "gwei"),
+      };
+      const manager = createManager();
+      await manager.init();
+      await manager.submit(CHAIN_ID, PAYMENTS.address, call(1));
+
+      const [tx] = devnet.broadcasts;
+      assert.equal(tx.maxFeePerGas, parseUnits("20", "gwei"));
+      assert.equal(tx.maxPriorityFeePerGas, parseUnits("2", "gwei"));
+      assert.equal(
+        await manager.estimateCost(CHAIN_ID, PAYMENTS.address, call(1)),
+        BigInt(100000) * parseUnits("20", "gwei")
+      );
+    });
+
+    test("uses the chain's fees below the cap", async () => {
+      const manager = createManager();
+      await manager.init();
+      await manager.submit(CHAIN_ID, PAYMENTS.address, call(1));
+      assert.equal(devnet.broadcasts[0].maxFeePerGas, parseUnits("10", "gwei"));
+    });
+  });
+
+  describe("stuck transactions", () => {
+    test("replaces a stuck transaction with bumped fees", async () => {
+      devnet.automine = false;
+      policy.stuckAfter = 0;
+      // Mine once the replacement comes in.
+      devnet.onBroadcast = (tx) => {
+        if (devnet.broadcasts.length === 2) {
+          devnet.mine();
+        }
+      };
+      const manager = createManager();
+      await manager.init();
+      const receipt = await manager.submit(CHAIN_ID, PAYMENTS.address, call(1));
+
+      const [original, replacement] = devnet.broadcasts;
+      assert.equal(replacement.nonce, original.nonce);
+      assert.equal(
+        replacement.maxFeePerGas,
+        (original.maxFeePerGas * BigInt(115)) / BigInt(100)
+      );
+      assert.equal(
+        replacement.maxPriorityFeePerGas,
+        (original.maxPriorityFeePerGas * BigInt(115)) / BigInt(100)
+      );
+      assert.equal(receipt.hash, replacement.hash);
+    });
+
+    test("never bumps fees past the cap", async () => {
+      devnet.automine = false;
+      policy.stuckAfter = 0;
+      devnet.fees.maxFeePerGas = parseUnits("19", "gwei");
+      devnet.onBroadcast = () => {
+        if (devnet.broadcasts.length === 2) {
+          // Give the manager a few polls to try bumping again, then mine.
+          setTimeout(() => devnet.mine(), 20);
+        }
+      };
+      const manager = createManager();
+      await manager.init();
+      await manager.submit(CHAIN_ID, PAYMENTS.address, call(1));
+
+      assert.deepEqual(
+        devnet.broadcasts.map((tx) => tx.maxFeePerGas),
+        [parseUnits("19", "gwei"), parseUnits("20", "gwei")]
+      );
+    });
+
+    test("rebroadcasts a dropped transaction at the fee cap", async () => {
+      devnet.automine = false;
+      policy.stuckAfter = 0;
+      devnet.fees.maxFeePerGas = parseUnits("20", "gwei");
+      devnet.onBroadcast = () => {
+        if (devnet.broadcasts.length === 1) {
+          devnet.drop();
+        } else {
+          devnet.mine();
+        }
+      };
+      const manager = createManager();
+      await manager.init();
+      const receipt = await manager.submit(CHAIN_ID, PAYMENTS.address, call(1));
+
+      const [original, rebroadcast] = devnet.broadcasts;
+      assert.equal(rebroadcast.hash, original.hash);
+      assert.equal(receipt.hash, original.hash);
+    });
+
+    test("gives up on transactions that aren't mined in time", async () => {
+      devnet.automine = false;
+      policy.maxPending = 0;
+      const manager = createManager();
+      await manager.init();
+      const pending = manager.submit(CHAIN_ID, PAYMENTS.address, call(1), "a");
+
+      await assert.rejects(pending, /was not mined within 0s/);
+      assert.equal(manager.hasPending("a"), false);
+      const [journaled] = JSON.parse(
+        readFileSync(join(dir, "transactions.json"), "utf-8")
+      );
+      assert.equal(journaled.status, "failed");
+
+      // The nonce is reused once the transaction is gone.
+      devnet.drop();
+      devnet.automine = true;
+      await manager.submit(CHAIN_ID, PAYMENTS.address, call(2));
+      assert.equal(devnet.broadcasts.at(-1).nonce, 0);
+    });
+
+    test("waits for confirmations of mined transactions past the deadline", async () => {
+      devnet.automine = false;
+      policy.maxPending = 0;
+      policy.confirmations = 2;
+      devnet.onBroadcast = () => devnet.mine();
+      const manager = createManager();
+      await manager.init();
+      const pending = manager.submit(CHAIN_ID, PAYMENTS.address, call(1));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      devnet.mine();
+
+      const receipt = await pending;
+      assert.equal(receipt.hash, devnet.broadcasts[0].hash);
+    });
+
+    test("keeps tracking through RPC errors", async () => {
+      devnet.automine = false;
+      const manager = createManager();
+      await manager.init();
+      const pending = manager.submit(CHAIN_ID, PAYMENTS.address, call(1), "a");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      devnet.failures.getTransactionCount = 3;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      assert.equal(devnet.failures.getTransactionCount, 0);
+      assert.equal(manager.hasPending("a"), true);
+
+      devnet.failures.confirmations = 3;
+      devnet.mine();
+      const receipt = await pending;
+      assert.equal(receipt.hash, devnet.broadcasts[0].hash);
+      assert.equal(manager.hasPending("a"), false);
+    });
+
+    test("reports reverted transactions", async () => {
+      devnet.automine = false;
+      const manager = createManager();
+      await manager.init();
+      const pending = manager.submit(CHAIN_ID, PAYMENTS.address, call(1), "a");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      devnet.mine(0);
+      await assert.rejects(pending, /reverted/);
+      assert.equal(manager.hasPending("a"), false);
+    });
+  });
+
+  describe("journal", () => {
+    test("resumes pending transactions after a restart", async () => {
+      devnet.automine = false;
+      const before = createManager();
+      await before.init();
+      const pending = before.submit(CHAIN_ID, PAYMENTS.address, call(1), "a");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const [journaled] = JSON.parse(
+        readFileSync(join(dir, "transactions.json"), "utf-8")
+      );
+      assert.equal(journaled.status, "pending");
+      assert.equal(journaled.ref, "a");
+
+      // Restart against a devnet that lost its mempool.
+      const { broadcasts } = devnet;
+      devnet = new Devnet();
+      devnet.automine = false;
+      const after = createManager();
+      await after.init();
+      assert.equal(after.hasPending("a"), true);
+      assert.equal(devnet.broadcasts[0].hash, broadcasts[0].hash);
+
+      // Submitting the same call again waits on the journaled transaction.
+      const resubmitted = after.submit(CHAIN_ID, PAYMENTS.address, call(1));
+      devnet.mine();
+      const receipt = await resubmitted;
+      assert.equal(receipt.hash, broadcasts[0].hash);
+      assert.equal(devnet.broadcasts.length, 1);
+      assert.equal(after.hasPending("a"), false);
+
+      // Let the tracker from before the restart see the same chain and finish.
+      (before as any).getProviders = () => [devnet];
+      await pending;
+    });
+
+    test("returns the original receipt for a confirmed call", async () => {
+      const manager = createManager();
+      await manager.init();
+      const first = await manager.submit(CHAIN_ID, PAYMENTS.address, call(1));
+      const restarted = createManager();
+      await restarted.init();
+      const second = await restarted.submit(
+        CHAIN_ID,
+        PAYMENTS.address,
+        call(1)
+      );
+      assert.equal(second.hash, first.hash);
+      assert.equal(devnet.broadcasts.length, 1);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import type { FastifyReply, FastifyRequest } from "fastify";
+import { ApiKey, Authenticator, Role } from "../src/auth.ts";
+
+const hash = (key: string) => createHash("sha256").update(key).digest("hex");
+
+const KEYS: ApiKey[] = (["read", "operator", "admin"] as Role[]).map(
+  (role) => ({ name: `${role}-key`, hash: hash(`${role}-secret`), role })
+);
+
+// A request made with the given headers.
+const request = (headers: Record<string, string> = {}) =>
+  ({
+    headers,
+    method: "POST",
+    url: "/channels/redeem",
+    ip: "127.0.0.1",
+  }) as unknown as FastifyRequest;
+
+describe("Authenticator", () => {
+  let dir: string;
+  let auth: Authenticator;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "auth-"));
+    auth = new Authenticator(
+      {
+        keys: KEYS,
+        auditLog: join(dir, "audit.log"),
+        legacyAdminToken: false,
+      },
+      "legacy-secret"
+    );
+  });
+
+  afterEach(async () => {
+    await auth.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Run a request through the hooks guarding a route.
+  const attempt = async (role: Role, req: FastifyRequest) => {
+    const { preHandler, onResponse } = auth.guard(role);
+    await preHandler.call(undefined, req, undefined);
+    await onResponse.call(undefined, req, {
+      statusCode: 200,
+    } as FastifyReply);
+  };
+
+  const readAuditLog = async () => {
+    await auth.close();
+    return readFileSync(join(dir, "audit.log"), "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+  };
+
+  test("lets keys through to routes for their role and below", async () => {
+    await attempt("operator", request({ "x-api-key": "operator-secret" }));
+    await attempt("operator", request({ "x-api-key": "admin-secret" }));
+    await attempt("read", request({ "x-api-key": "read-secret" }));
+
+    assert.deepEqual(
+      (await readAuditLog()).map(({ key, outcome, status }) => [
+        key,
+        outcome,
+        status,
+      ]),
+      [
+        ["operator-key", "allowed", 200],
+        ["admin-key", "allowed", 200],
+        ["read-key", "allowed", 200],
+      ]
+    );
+  });
+
+  test("rejects missing, unknown and underprivileged keys", async () => {
+    await assert.rejects(attempt("operator", request()), { statusCode: 401 });
+    await assert.rejects(
+      attempt("operator", request({ "x-api-key": "wrong-secret" })),
+      { statusCode: 401 }
+    );
+    await assert.rejects(
+      attempt("operator", request({ "x-api-key": "read-secret" })),
+      { statusCode: 403 }
+    );
+    await assert.rejects(
+      attempt("admin", request({ "x-api-key": "operator-secret" })),
+      { statusCode: 403 }
+    );
+
+    assert.deepEqual(
+      (await readAuditLog()).map(({ key, role, action, outcome }) => [
+        key,
+        role,
+        action,
+        outcome,
+      ]),
+      [
+        [undefined, undefined, "POST /channels/redeem", "unauthenticated"],
+        [undefined, undefined, "POST /channels/redeem", "unauthenticated"],
+        ["read-key", "read", "POST /channels/redeem", "forbidden"],
+        ["operator-key", "operator", "POST /channels/redeem", "forbidden"],
+      ]
+    );
+  });
+
+  test("only accepts the shared admin token while enabled", async () => {
+    const req = () => request({ "x-admin-token": "legacy-secret" });
+    await assert.rejects(attempt("admin", req()), { statusCode: 401 });
+
+    auth.reconfigure(
+      { keys: KEYS, auditLog: join(dir, "audit.log"), legacyAdminToken: true },
+      "legacy-secret"
+    );
+    await attempt("admin", req());
+    assert.deepEqual(auth.authenticate(req()), {
+      name: "legacy",
+      role: "admin",
+    });
+  });
+});
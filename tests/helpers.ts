@@ -0,0 +1,241 @@
+import { readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { HDNodeWallet, Interface } from "ethers";
+import { ChannelStore, InsertChannelParams } from "../src/ChannelStore.ts";
+import { MemoryChannelStore } from "../src/MemoryChannelStore.ts";
+import {
+  ChainParams,
+  ChannelSettings,
+  ChannelUpdateResult,
+  ContractInfo,
+  ProviderNode,
+} from "../src/ProviderNode.ts";
+import { logger } from "../src/logging.ts";
+import { getStateDigest } from "../src/signatures.ts";
+
+/**
+ * Shared fixtures for tests running a ProviderNode against mocked contracts. Nothing here
+ * talks to a chain.
+ */
+
+logger.level = "silent";
+
+export const MNEMONIC =
+  "test test test test test test test test test test test junk";
+export const CHAIN_ID = "11155111";
+export const PROVIDER = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+export const SUBSCRIBER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+export const OTHER_SUBSCRIBER = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+export const ASSET = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+// Wallets of the subscribers above, for signing channel states.
+export const SUBSCRIBER_WALLET = HDNodeWallet.fromPhrase(
+  MNEMONIC,
+  undefined,
+  "m/44'/60'/0'/0/1"
+);
+export const OTHER_SUBSCRIBER_WALLET = HDNodeWallet.fromPhrase(
+  MNEMONIC,
+  undefined,
+  "m/44'/60'/0'/0/2"
+);
+
+const artifact = (name: string): ContractInfo => ({
+  address: {
+    Payments: "0x0165878A594ca255338adfa4d48449f69242Eb8F",
+    SemaphoreHSS: "0xa513E6E4b8f2a923D98304ec87F64353C4C5C853",
+  }[name],
+  abi: JSON.parse(
+    readFileSync(`artifacts/sepolia/${name}.sol/${name}.json`, "utf-8")
+  ).abi,
+});
+
+export const PAYMENTS = artifact("Payments");
+export const SEMAPHORE_HSS = artifact("SemaphoreHSS");
+
+// A bytes32 value, e.g. a channel ID or transaction hash.
+export const bytes32 = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+
+export const now = () => Math.floor(new Date().getTime() / 1000);
+
+/**
+ * Sign a packed channel state for the node, as the default subscriber unless another wallet is
+ * given.
+ */
+export const signState = (
+  state: { id: string; amount: string; expiry: number },
+  wallet: HDNodeWallet = SUBSCRIBER_WALLET
+): string =>
+  wallet.signingKey.sign(
+    getStateDigest("packed", { ...state, provider: PROVIDER, asset: ASSET })
+  ).serialized;
+
+// Read handlers of a mocked contract, keyed by function name. Returning undefined stands in
+// for a failed call.
+export type ContractMock = { [functionName: string]: (...args: any[]) => any };
+
+// A submitted transaction, decoded against the contract it was sent to.
+export type Submission = {
+  functionName: string;
+  args: any[];
+  ref?: string;
+};
+
+export type TestNode = {
+  node: ProviderNode;
+  store: ChannelStore;
+  // Transactions submitted so far, oldest first.
+  submissions: Submission[];
+  // Make submissions of the given function fail, as if they reverted.
+  failSubmissions: (functionName: string) => void;
+  stop: () => void;
+};
+
+/**
+ * Mock Payments contract holding the given escrow balance for every subscriber, with no
+ * withdrawal requested unless one is given. Channel IDs are handed out in sequence.
+ */
+export const escrow = (
+  balance: string,
+  overrides: ContractMock = {}
+): ContractMock => {
+  let ids = 0;
+  return {
+    getRandomId: () => bytes32(1000 + ++ids),
+    isIdUsed: () => false,
+    "checkBalance(address,address)": () => BigInt(balance),
+    checkWithdrawalRequest: () => BigInt(0),
+    withdrawalWaitPeriod: () => BigInt(60 * 60 * 24),
+    ...overrides,
+  };
+};
+
+// Mock SemaphoreHSS contract where every address is a subscriber.
+export const subscribers = (): ContractMock => ({ isSubscriber: () => true });
+
+/**
+ * Create a node on a single chain whose contract calls are answered by the given mocks. Writes
+ * are recorded instead of sent, and succeed unless made to fail. Claims simulate successfully
+ * unless `estimateGas` returns an error for them. Channels are kept in memory unless another
+ * store is given.
+ */
+export const createNode = (
+  contracts: { Payments?: ContractMock; SemaphoreHSS?: ContractMock } = {},
+  {
+    chain,
+    channels,
+    estimateGas,
+    store = new MemoryChannelStore(),
+  }: {
+    chain?: Partial<ChainParams>;
+    channels?: Partial<ChannelSettings>;
+    estimateGas?: (functionName: string, args: any[]) => any;
+    store?: ChannelStore;
+  } = {}
+): TestNode => {
+  const node = new ProviderNode(
+    MNEMONIC,
+    store,
+    {
+      [CHAIN_ID]: {
+        providers: [],
+        assets: [ASSET],
+        contracts: { Payments: PAYMENTS, SemaphoreHSS: SEMAPHORE_HSS },
+        ...chain,
+      },
+    },
+    { expiryTolerance: 0, requireRegistration: false, ...channels },
+    { journal: join(tmpdir(), `transactions-${process.pid}-unused.json`) }
+  );
+
+  const mocks: { [address: string]: ContractMock } = {
+    [PAYMENTS.address]: contracts.Payments ?? {},
+    [SEMAPHORE_HSS.address]: contracts.SemaphoreHSS ?? {},
+  };
+  (node as any).sendTransaction = async (
+    chainId: string,
+    contract: ContractInfo,
+    functionName: string,
+    args: any[]
+  ) => mocks[contract.address][functionName]?.(...args);
+  (node as any).estimateGas = async (
+    chainId: string,
+    contract: ContractInfo,
+    functionName: string,
+    args: any[]
+  ) => estimateGas?.(functionName, args);
+
+  const submissions: Submission[] = [];
+  const failing: Set<string> = new Set();
+  const interfaces = {
+    [PAYMENTS.address]: new Interface(PAYMENTS.abi),
+    [SEMAPHORE_HSS.address]: new Interface(SEMAPHORE_HSS.abi),
+  };
+  (node as any).transactions.submit = async (
+    chainId: string,
+    to: string,
+    data: string,
+    ref?: string
+  ) => {
+    const call = interfaces[to].parseTransaction({ data });
+    submissions.push({ functionName: call.name, args: [...call.args], ref });
+    if (failing.has(call.name)) {
+      throw new Error("execution reverted");
+    }
+    return { hash: bytes32(submissions.length) };
+  };
+
+  return {
+    node,
+    store,
+    submissions,
+    failSubmissions: (functionName: string) => {
+      failing.add(functionName);
+    },
+    // Stop the background RPC probes.
+    stop: () => node.reconfigure({}),
+  };
+};
+
+/**
+ * Params for inserting a channel from the default subscriber to the node.
+ */
+export const channel = (
+  id: string,
+  params: Partial<InsertChannelParams> = {}
+): InsertChannelParams => ({
+  id,
+  chainId: CHAIN_ID,
+  sender: SUBSCRIBER,
+  receiver: PROVIDER,
+  asset: ASSET,
+  amount: "1000",
+  expiry: now() + 60 * 60 * 24 * 7,
+  signature: "0x01",
+  ...params,
+});
+
+/**
+ * Reserve an ID and open a channel with a state signed by the given wallet (the default
+ * subscriber's unless given).
+ */
+export const openChannel = async (
+  node: ProviderNode,
+  {
+    amount = "100",
+    expiry = now() + 60 * 60 * 24 * 7,
+    wallet = SUBSCRIBER_WALLET,
+  }: { amount?: string; expiry?: number; wallet?: HDNodeWallet } = {}
+): Promise<ChannelUpdateResult> => {
+  const id = await node.generateId(CHAIN_ID, wallet.address);
+  return node.openChannel({
+    id,
+    chainId: CHAIN_ID,
+    subscriber: wallet.address,
+    asset: ASSET,
+    amount,
+    expiry,
+    signature: signState({ id, amount, expiry }, wallet),
+  });
+};
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { HDNodeWallet } from "ethers";
+import { signReceipt, verifyReceipt } from "../src/receipts.ts";
+import { bytes32, MNEMONIC, now } from "./helpers.ts";
+
+describe("receipts", () => {
+  const wallet = HDNodeWallet.fromPhrase(MNEMONIC);
+  const receipt = signReceipt(wallet, {
+    id: bytes32(1),
+    iteration: 2,
+    amount: "1000",
+    expiry: now() + 60,
+    signature: "0x01",
+  });
+
+  test("accepts receipts signed by their provider", () => {
+    assert.deepEqual(verifyReceipt(receipt, { signature: "0x01" }), {
+      valid: true,
+      signer: wallet.address,
+    });
+  });
+
+  test("rejects receipts that don't cover the given signature", () => {
+    assert.equal(verifyReceipt(receipt, { signature: "0x02" }).valid, false);
+  });
+
+  test("reports malformed addresses as invalid receipts", () => {
+    for (const provider of ["0x1234", "not an address"]) {
+      const result = verifyReceipt(receipt, { provider });
+      assert.equal(result.valid, false);
+      assert.match(result.error, /^Malformed receipt: /);
+    }
+  });
+
+  test("reports malformed subscriber signatures as invalid receipts", () => {
+    const result = verifyReceipt(receipt, { signature: "0xzz" });
+    assert.equal(result.valid, false);
+    assert.match(result.error, /^Malformed receipt: /);
+  });
+});
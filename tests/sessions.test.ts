@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, test } from "node:test";
+import type { FastifyRequest } from "fastify";
+import { HDNodeWallet } from "ethers";
+import { NotFoundError, UnavailableError } from "../src/errors.ts";
+import { SessionManager } from "../src/sessions.ts";
+import { CHAIN_ID, createNode, MNEMONIC, TestNode } from "./helpers.ts";
+
+describe("SessionManager", () => {
+  let testNode: TestNode | undefined;
+
+  afterEach(() => {
+    testNode?.stop();
+    testNode = undefined;
+  });
+
+  // A session manager and a token for the default subscriber.
+  const signIn = async () => {
+    testNode = createNode();
+    const sessions = new SessionManager(testNode.node, {
+      required: true,
+      secret: "secret",
+      challengeTtl: 60,
+      sessionTtl: 60,
+      registeredKeys: false,
+    });
+    const subscriber = HDNodeWallet.fromPhrase(
+      MNEMONIC,
+      undefined,
+      "m/44'/60'/0'/0/1"
+    );
+    const { nonce, message } = sessions.createChallenge(
+      CHAIN_ID,
+      subscriber.address
+    );
+    const { token } = await sessions.createSession(
+      nonce,
+      subscriber.signMessageSync(message)
+    );
+    const req = {
+      headers: { authorization: `Bearer ${token}` },
+      query: {},
+    } as unknown as FastifyRequest;
+    return { sessions, subscriber, req };
+  };
+
+  describe("createChallenge", () => {
+    test("rejects malformed subscriber addresses", async () => {
+      const { sessions, subscriber } = await signIn();
+      for (const address of [
+        "not-an-address",
+        "0x1234",
+        // Checksummed, with the case of one letter flipped.
+        subscriber.address.replace(/[a-fA-F]/, (c) =>
+          c === c.toLowerCase() ? c.toUpperCase() : c.toLowerCase()
+        ),
+      ]) {
+        assert.throws(() => sessions.createChallenge(CHAIN_ID, address), {
+          code: "INVALID_ADDRESS",
+          statusCode: 400,
+        });
+      }
+    });
+  });
+
+  describe("scope", () => {
+    test("restricts queries to the session's subscriber and chain", async () => {
+      const { sessions, subscriber, req } = await signIn();
+      assert.deepEqual(
+        sessions.scope(req, { sender: "0x1234", chainId: "1", limit: 10 }),
+        { sender: subscriber.address, chainId: CHAIN_ID, limit: 10 }
+      );
+    });
+
+    test("requires a session", async () => {
+      const { sessions } = await signIn();
+      const req = { headers: {}, query: {} } as unknown as FastifyRequest;
+      assert.throws(() => sessions.scope(req, {}), {
+        code: "SESSION_REQUIRED",
+        statusCode: 401,
+      });
+    });
+  });
+
+  describe("guard", () => {
+    test("lets requests for the session's subscriber through", async () => {
+      const { sessions, subscriber, req } = await signIn();
+      const { preHandler } = sessions.guard(() => ({
+        subscriber: subscriber.address,
+        chainId: CHAIN_ID,
+      }));
+      await preHandler.call(undefined, req, undefined);
+    });
+
+    test("rejects requests for another subscriber", async () => {
+      const { sessions, req } = await signIn();
+      const { preHandler } = sessions.guard(() => ({
+        subscriber: HDNodeWallet.createRandom().address,
+        chainId: CHAIN_ID,
+      }));
+      await assert.rejects(preHandler.call(undefined, req, undefined), {
+        code: "SESSION_MISMATCH",
+      });
+    });
+
+    test("passes requests for missing channels on to the route", async () => {
+      const { sessions, req } = await signIn();
+      const { preHandler } = sessions.guard(async () => {
+        throw new NotFoundError("Channel does not exist.", "CHANNEL_NOT_FOUND");
+      });
+      await preHandler.call(undefined, req, undefined);
+    });
+
+    test("fails requests whose subscriber can't be worked out", async () => {
+      const { sessions, req } = await signIn();
+      const { preHandler } = sessions.guard(async () => {
+        throw new UnavailableError("Store is unreachable.");
+      });
+      await assert.rejects(
+        preHandler.call(undefined, req, undefined),
+        UnavailableError
+      );
+    });
+  });
+});